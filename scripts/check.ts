@@ -0,0 +1,21 @@
+// A minimal test runner for the scripts under `npm test`: runs each check,
+// prints TAP-style ok / not ok lines and fails the process if any check failed
+
+let failures = 0;
+
+export const check = (name: string, test: () => void) => {
+  try {
+    test();
+    console.log(`ok - ${name}`);
+  } catch (err) {
+    failures++;
+    console.error(`not ok - ${name}\n`, err);
+  }
+};
+
+export const report = () => {
+  if (failures) {
+    console.error(`${failures} failed`);
+    process.exit(1);
+  }
+};
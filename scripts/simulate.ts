@@ -0,0 +1,108 @@
+/**
+ * Runs a race headlessly with a simple bot driver and prints the result.
+ *
+ *   npm run simulate -- meadow
+ *   npm run simulate -- --seed k3x9qa
+ *   npm run simulate -- hills --mode race
+ *   npm run simulate -- desert --laps 3 --time-limit
+ *   npm run simulate -- --mode endless --seed k3x9qa
+ *   npm run simulate -- autumn --vehicle muscle
+ */
+
+import { createCars, getStandings } from '../src/game/cars';
+import { createEngineState, findSegment, step, type Input } from '../src/game/engine';
+import { MAX_SPEED, PLAYER_Z, SEGMENT_LENGTH } from '../src/game/constants';
+import { createEndlessTrack, endlessDifficulty, endlessDistance, endlessScore, ENDLESS_SETTINGS } from '../src/game/endless';
+import { generateTrack } from '../src/game/generator';
+import { bestLap } from '../src/game/laps';
+import { buildSegments, loadTrack } from '../src/game/track';
+import type { RaceMode, Sprite } from '../src/game/types';
+import { DEFAULT_VEHICLE, findVehicle, VEHICLES } from '../src/game/vehicles';
+import { TRACKS } from '../src/tracks';
+
+const LOOKAHEAD = 40; // segments
+const BOT_REACTION = 0.15; // seconds
+
+const args = process.argv.slice(2);
+const option = (name: string) => {
+  const index = args.indexOf(name);
+  return index >= 0 ? args.splice(index, 2)[1] : undefined;
+};
+const seed = option('--seed');
+const mode = (option('--mode') ?? 'solo') as RaceMode;
+const laps = Number(option('--laps') ?? 1);
+const vehicle = findVehicle(option('--vehicle') ?? DEFAULT_VEHICLE.id);
+const timeLimit = args.includes('--time-limit');
+if (timeLimit) args.splice(args.indexOf('--time-limit'), 1);
+const endless = mode === 'endless' ? createEndlessTrack(seed ?? 'endless') : null;
+const definition = seed !== undefined
+  ? loadTrack(generateTrack(seed)).definition
+  : TRACKS.find(entry => entry.id === (args[0] ?? 'meadow'))?.track?.definition;
+
+if (!endless && !definition) {
+  console.error(`Unknown track. Available: ${TRACKS.map(entry => entry.id).join(', ')}`);
+  process.exit(1);
+}
+if (!vehicle) {
+  console.error(`Unknown vehicle. Available: ${VEHICLES.map(entry => entry.id).join(', ')}`);
+  process.exit(1);
+}
+
+// Steer away from the nearest obstacle ahead, otherwise toward the nearest boost, otherwise back to the center line
+const bot = (state: ReturnType<typeof createEngineState>): Input => {
+  let obstacle: Sprite | undefined;
+  let boost: Sprite | undefined;
+  for (let n = 0; n <= LOOKAHEAD && !obstacle; n++) {
+    const segment = findSegment(state.segments, state.position + PLAYER_Z + n * SEGMENT_LENGTH);
+    obstacle = segment.sprites.find(s => s.type === 'obstacle');
+    boost ??= segment.sprites.find(s => s.type === 'boost');
+  }
+  const target = obstacle ? obstacle.x + (obstacle.x > 0 ? -0.5 : 0.5) : (boost?.x ?? 0);
+  // Lean into the curve to cancel its outward pull, and aim from where the car
+  // will be once the wheel has caught up
+  const { handling } = state.vehicle;
+  const { curve } = findSegment(state.segments, state.position + PLAYER_Z);
+  const speedRatio = state.speed / MAX_SPEED;
+  const pull = (curve * handling.centrifugal * speedRatio) / handling.steerRate;
+  const lateral = (state.steer - pull) * handling.steerRate * speedRatio;
+  const error = target - (state.playerX + lateral * BOT_REACTION);
+  return { steer: Math.max(-1, Math.min(1, error * 5 + pull)), throttle: 1, brake: 0, drift: 0 };
+};
+
+const segments = endless?.segments ?? buildSegments(definition);
+const state = endless
+  ? createEngineState(segments, [], ENDLESS_SETTINGS, vehicle, endless.stream)
+  : createEngineState(segments, createCars(mode, definition.id, segments.length * SEGMENT_LENGTH), { laps, timeLimit }, vehicle);
+const counts = { obstacle: 0, boost: 0, prop: 0, car: 0 };
+const MAX_TICKS = 60 * 60 * 10;
+
+while (!state.finished && !state.failure && state.tick < MAX_TICKS) {
+  step(state, bot(state));
+  for (const event of state.events) {
+    if (event in counts) counts[event as keyof typeof counts]++;
+  }
+}
+
+if (endless) {
+  const distance = endlessDistance(state);
+  console.log(`Endless (seed ${endless.stream.seed})`);
+  console.log(`${state.failure === 'wrecked' ? 'Wrecked' : 'Still going'} after ${state.time.toFixed(2)}s`);
+  console.log(`Score: ${endlessScore(state)} (${Math.floor(distance / SEGMENT_LENGTH)} segments, level ${endlessDifficulty(distance / SEGMENT_LENGTH).level})`);
+} else {
+  console.log(`${definition.name} (${definition.id}), ${vehicle.name} (${vehicle.id})`);
+}
+if (state.finished) console.log(`Finished in ${state.time.toFixed(2)}s`);
+else if (state.failure === 'timeout') console.log(`Ran out of time on lap ${state.lap + 1} after ${state.splits.length} checkpoint(s)`);
+else if (state.failure === 'wrecked' && !endless) console.log(`Wrecked on lap ${state.lap + 1} after ${state.time.toFixed(2)}s`);
+else if (!endless) console.log('Did not finish');
+state.lapRecords.forEach((lap, i) => {
+  console.log(`Lap ${i + 1}: ${lap.time.toFixed(2)}s (splits ${lap.splits.map(split => split.toFixed(2)).join(', ')})`);
+});
+if (state.lapRecords.length > 1) console.log(`Best lap: ${bestLap(state.lapRecords)?.time.toFixed(2)}s`);
+console.log(`Obstacles hit: ${counts.obstacle}, boosts collected: ${counts.boost}, trees hit: ${counts.prop}, car bumps: ${counts.car}`);
+console.log(`Damage: ${Math.round(state.damage)}`);
+if (mode === 'race' && state.finished) {
+  getStandings(state, 'Bot').forEach((entry, i) => {
+    console.log(`${i + 1}. ${entry.name.padEnd(6)} ${entry.estimated ? '~' : ' '}${entry.time.toFixed(2)}s`);
+  });
+}
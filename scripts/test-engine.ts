@@ -0,0 +1,115 @@
+/**
+ * Checks that the engine is deterministic: the same inputs on the same track
+ * always end in the same state, and the fixed-step clock takes the same number
+ * of steps however a stretch of time is split into frames.
+ *
+ *   npm test
+ */
+
+import assert from 'node:assert/strict';
+import { createCars } from '../src/game/cars';
+import { SEGMENT_LENGTH } from '../src/game/constants';
+import { advanceClock, createClock, createEngineState, MAX_FRAME_TIME, step, STEP, type EngineState, type Input } from '../src/game/engine';
+import { createRng } from '../src/game/random';
+import { buildSegments } from '../src/game/track';
+import type { RaceMode } from '../src/game/types';
+import { findVehicle } from '../src/game/vehicles';
+import { findTrackDefinition } from '../src/tracks';
+import { check, report } from './check';
+
+const MAX_TICKS = 60 * 120; // two minutes of racing
+
+// A driver that holds random inputs for random stretches, mostly on the throttle
+const randomInputs = (seed: string, ticks: number): Input[] => {
+  const rng = createRng(seed);
+  const inputs: Input[] = [];
+  while (inputs.length < ticks) {
+    const input = {
+      steer: rng.range(-1, 1),
+      throttle: rng.chance(0.8) ? rng.range(0.5, 1) : 0,
+      brake: rng.chance(0.1) ? rng.next() : 0,
+      drift: rng.chance(0.1) ? 1 : 0,
+    };
+    for (let n = rng.int(1, 30); n > 0; n--) inputs.push(input);
+  }
+  return inputs.slice(0, ticks);
+};
+
+// Everything but the track, which the state only points into; the sprites
+// still count, since pickups are taken off it
+const snapshot = ({ segments, collected, ...state }: EngineState) => JSON.stringify({
+  ...state,
+  collected: collected.map(({ segment }) => segment.index),
+  sprites: segments.map(segment => segment.sprites.length),
+});
+
+const race = (trackId: string, mode: RaceMode, laps: number, vehicleId: string, inputs: Input[]) => {
+  const definition = findTrackDefinition(trackId)!;
+  const segments = buildSegments(definition);
+  const state = createEngineState(segments, createCars(mode, trackId, segments.length * SEGMENT_LENGTH), { laps, timeLimit: false }, findVehicle(vehicleId)!);
+  for (const input of inputs) {
+    if (state.finished || state.failure) break;
+    step(state, input);
+  }
+  return state;
+};
+
+// --- Simulation ---
+
+const RACES: [trackId: string, mode: RaceMode, laps: number, vehicleId: string][] = [
+  ['meadow', 'race', 2, 'roadster'],
+  ['hills', 'traffic', 1, 'rally'],
+  ['desert', 'solo', 3, 'muscle'],
+];
+
+for (const [trackId, mode, laps, vehicleId] of RACES) {
+  check(`${trackId} ${mode} ${laps} laps in the ${vehicleId} replays identically`, () => {
+    const inputs = randomInputs(`${trackId}:${mode}`, MAX_TICKS);
+    const first = race(trackId, mode, laps, vehicleId, inputs);
+    // Another race in between, in case anything leaks through module state
+    race('autumn', 'race', 1, 'formula', randomInputs('autumn', MAX_TICKS));
+    const second = race(trackId, mode, laps, vehicleId, inputs);
+    assert.ok(first.tick > 0);
+    assert.equal(snapshot(second), snapshot(first));
+  });
+}
+
+check('different inputs give a different race', () => {
+  const first = race('meadow', 'race', 1, 'roadster', randomInputs('a', MAX_TICKS));
+  const second = race('meadow', 'race', 1, 'roadster', randomInputs('b', MAX_TICKS));
+  assert.notEqual(snapshot(second), snapshot(first));
+});
+
+// --- Fixed-Step Clock ---
+
+const SECONDS = 10;
+const TOTAL_STEPS = Math.round(SECONDS / STEP);
+
+const stepsFor = (frameTimes: number[]) => {
+  const clock = createClock();
+  return frameTimes.reduce((steps, frameTime) => steps + advanceClock(clock, frameTime, () => {}), 0);
+};
+
+for (const fps of [30, 50, 60, 75, 90, 120, 144, 165, 240]) {
+  check(`${SECONDS}s at ${fps} fps takes ${TOTAL_STEPS} steps`, () => {
+    assert.equal(stepsFor(Array.from({ length: SECONDS * fps }, () => 1 / fps)), TOTAL_STEPS);
+  });
+}
+
+check(`${SECONDS}s of uneven frames takes ${TOTAL_STEPS} steps`, () => {
+  const rng = createRng('frames');
+  const frameTimes: number[] = [];
+  let remaining = SECONDS;
+  while (remaining > 0) {
+    const frameTime = Math.min(remaining, rng.range(0.001, MAX_FRAME_TIME));
+    frameTimes.push(frameTime);
+    remaining -= frameTime;
+  }
+  assert.equal(stepsFor(frameTimes), TOTAL_STEPS);
+});
+
+check('a frame longer than MAX_FRAME_TIME only catches up on MAX_FRAME_TIME', () => {
+  assert.equal(stepsFor([1]), Math.round(MAX_FRAME_TIME / STEP));
+});
+
+report();
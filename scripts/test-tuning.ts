@@ -0,0 +1,54 @@
+/**
+ * Checks that the debug overlay's tuning scales each car from its own stats,
+ * and leaves every car exactly as it is on the default values.
+ *
+ *   npm test
+ */
+
+import assert from 'node:assert/strict';
+import { applyTuning, DEFAULT_TUNING } from '../src/debug';
+import { createEngineState } from '../src/game/engine';
+import { buildSegments } from '../src/game/track';
+import { findVehicle, VEHICLES, type Vehicle } from '../src/game/vehicles';
+import { findTrackDefinition } from '../src/tracks';
+import { check, report } from './check';
+
+const segments = buildSegments(findTrackDefinition('meadow')!);
+
+const tuned = (vehicle: Vehicle, tuning = DEFAULT_TUNING) => {
+  const state = createEngineState(segments, [], undefined, vehicle);
+  applyTuning(state, tuning);
+  return state.vehicle;
+};
+
+// Gives a garage car its own value for a stat for the length of a test
+const withStat = <K extends keyof Vehicle>(id: string, key: K, value: Vehicle[K], test: (vehicle: Vehicle) => void) => {
+  const vehicle = findVehicle(id)!;
+  const original = vehicle[key];
+  vehicle[key] = value;
+  try {
+    test(vehicle);
+  } finally {
+    vehicle[key] = original;
+  }
+};
+
+for (const vehicle of VEHICLES) {
+  check(`the default tuning leaves the ${vehicle.id} unchanged`, () => {
+    assert.deepEqual(tuned(vehicle), vehicle);
+  });
+}
+
+check('a car with its own boost duration keeps it on the default tuning', () => {
+  withStat('rally', 'boostDuration', 4.5, vehicle => {
+    assert.equal(tuned(vehicle).boostDuration, 4.5);
+  });
+});
+
+check('a tuned boost duration scales a car\'s own boost duration', () => {
+  withStat('rally', 'boostDuration', 4.5, vehicle => {
+    assert.equal(tuned(vehicle, { ...DEFAULT_TUNING, BOOST_DURATION: DEFAULT_TUNING.BOOST_DURATION * 2 }).boostDuration, 9);
+  });
+});
+
+report();
@@ -0,0 +1,90 @@
+/**
+ * Checks the server's replay verification: a genuine run is accepted, a
+ * tampered one is rejected as unprocessable (422) and a replay from another
+ * version as a bad request (400).
+ *
+ *   npm test
+ */
+
+import assert from 'node:assert/strict';
+import { HttpError } from '../server/http';
+import { verifySubmission } from '../server/verify';
+import { MAX_SPEED, PLAYER_Z } from '../src/game/constants';
+import { createEngineState, findSegment, step, type EngineState, type Input } from '../src/game/engine';
+import { createRecorder, type Replay } from '../src/game/replay';
+import { buildSegments } from '../src/game/track';
+import { DEFAULT_VEHICLE } from '../src/game/vehicles';
+import { findTrackDefinition } from '../src/tracks';
+import { check, report } from './check';
+
+const TRACK_ID = 'meadow';
+const MAX_TICKS = 60 * 60 * 5;
+
+// Full throttle, holding the center line against the pull of the curves
+const bot = (state: EngineState): Input => {
+  const { curve } = findSegment(state.segments, state.position + PLAYER_Z);
+  const { handling } = state.vehicle;
+  const pull = (curve * handling.centrifugal * (state.speed / MAX_SPEED)) / handling.steerRate;
+  return { steer: Math.max(-1, Math.min(1, -state.playerX * 5 + pull)), throttle: 1, brake: 0, drift: 0 };
+};
+
+// Drives a lap the way the game does, recording the quantized inputs it actually ran on
+const recordRun = (): Replay => {
+  const segments = buildSegments(findTrackDefinition(TRACK_ID)!);
+  const state = createEngineState(segments, [], { laps: 1, timeLimit: false }, DEFAULT_VEHICLE);
+  const recorder = createRecorder();
+  while (!state.finished && !state.failure && state.tick < MAX_TICKS) step(state, recorder.record(bot(state)));
+  assert.ok(state.finished, `the bot did not finish ${TRACK_ID}`);
+  return recorder.finish(TRACK_ID, 'solo', DEFAULT_VEHICLE, state.settings, state.time);
+};
+
+// The status the server would answer a submission with
+const statusOf = (replay: unknown) => {
+  try {
+    verifySubmission(JSON.parse(JSON.stringify(replay)));
+    return 201;
+  } catch (err) {
+    if (err instanceof HttpError) return err.status;
+    throw err;
+  }
+};
+
+const replay = recordRun();
+
+check('a genuine run is accepted at its own time', () => {
+  assert.equal(statusOf(replay), 201);
+  assert.ok(Math.abs(verifySubmission(replay).time - replay.time) < 1e-9);
+});
+
+check('a faster claimed time is rejected with 422', () => {
+  assert.equal(statusOf({ ...replay, time: replay.time - 1 }), 422);
+});
+
+check('a slower claimed time is rejected with 422', () => {
+  assert.equal(statusOf({ ...replay, time: replay.time + 1 }), 422);
+});
+
+check('tampered inputs are rejected with 422', () => {
+  // Same run lengths, so the replay still parses, but easing off the throttle
+  // no longer reaches the finish in the recorded ticks
+  const inputs = replay.inputs.map(([ticks, steer, throttle, brake, drift]) => [ticks, steer, Math.round(throttle * 0.8), brake, drift]);
+  assert.equal(statusOf({ ...replay, inputs }), 422);
+});
+
+check('a run on an unknown track is rejected with 422', () => {
+  assert.equal(statusOf({ ...replay, trackId: 'nowhere' }), 422);
+});
+
+check('another replay format version is rejected with 400', () => {
+  assert.equal(statusOf({ ...replay, version: replay.version - 1 }), 400);
+});
+
+check('another engine version is rejected with 400', () => {
+  assert.equal(statusOf({ ...replay, engineVersion: replay.engineVersion - 1 }), 400);
+});
+
+check('a replay whose runs do not add up to its ticks is rejected with 400', () => {
+  assert.equal(statusOf({ ...replay, ticks: replay.ticks + 1 }), 400);
+});
+
+report();
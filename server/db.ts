@@ -0,0 +1,49 @@
+import Database from 'better-sqlite3';
+
+// --- Schema ---
+// Each entry upgrades the schema by one version; the applied version is kept in
+// SQLite's user_version pragma. Never edit a shipped migration, append a new one.
+
+const MIGRATIONS: string[] = [
+  `
+  CREATE TABLE runs (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    track_id TEXT NOT NULL,
+    mode TEXT NOT NULL,
+    player_name TEXT NOT NULL,
+    time REAL NOT NULL,
+    engine_version INTEGER NOT NULL,
+    replay TEXT NOT NULL,
+    created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+  );
+  CREATE INDEX runs_by_track ON runs (track_id, mode, time);
+  CREATE INDEX runs_by_player ON runs (player_name, track_id, mode, time);
+  `,
+  `
+  ALTER TABLE runs ADD COLUMN laps INTEGER NOT NULL DEFAULT 1;
+  DROP INDEX runs_by_track;
+  DROP INDEX runs_by_player;
+  CREATE INDEX runs_by_track ON runs (track_id, mode, laps, time);
+  CREATE INDEX runs_by_player ON runs (player_name, track_id, mode, laps, time);
+  `,
+];
+
+export type Db = Database.Database;
+
+export const migrate = (db: Db) => {
+  const current = db.pragma('user_version', { simple: true }) as number;
+  for (let version = current; version < MIGRATIONS.length; version++) {
+    db.transaction(() => {
+      db.exec(MIGRATIONS[version]);
+      db.pragma(`user_version = ${version + 1}`);
+    })();
+    console.log(`Applied database migration ${version + 1}`);
+  }
+};
+
+export const openDatabase = (file: string): Db => {
+  const db = new Database(file);
+  db.pragma('journal_mode = WAL');
+  migrate(db);
+  return db;
+};
@@ -0,0 +1,7 @@
+// Thrown by request handlers to answer with a status and an error message
+export class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
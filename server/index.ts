@@ -0,0 +1,101 @@
+/**
+ * Local leaderboard and race server.
+ *
+ *   npm run server
+ *
+ * Runs on PORT (default 3001) and stores runs in DATABASE_PATH (default
+ * ./leaderboard.db). Online races connect over WebSocket on /ws. In
+ * development Vite proxies /api and /ws to this server.
+ */
+
+import 'dotenv/config';
+import express, { type NextFunction, type Request, type Response } from 'express';
+import { MAX_PLAYER_NAME_LENGTH, type SubmitRunResponse } from '../src/api';
+import { MAX_LAPS } from '../src/game/laps';
+import type { RaceMode } from '../src/game/types';
+import { openDatabase } from './db';
+import { HttpError } from './http';
+import { insertRun, playerBests, playerBestTime, rankOf, topRuns } from './leaderboard';
+import { attachRaceServer } from './race';
+import { verifySubmission } from './verify';
+
+const PORT = Number(process.env.PORT ?? 3001);
+const DATABASE_PATH = process.env.DATABASE_PATH ?? 'leaderboard.db';
+const RACE_MODES: RaceMode[] = ['solo', 'race', 'traffic'];
+const MAX_LIMIT = 100;
+
+const parseMode = (value: unknown): RaceMode => {
+  const mode = (value ?? 'solo') as RaceMode;
+  if (!RACE_MODES.includes(mode)) throw new HttpError(400, `mode must be one of ${RACE_MODES.join(', ')}`);
+  return mode;
+};
+
+const parseLaps = (value: unknown) => {
+  const laps = value === undefined ? 1 : Number(value);
+  if (!Number.isInteger(laps) || laps < 1 || laps > MAX_LAPS) throw new HttpError(400, `laps must be an integer in [1, ${MAX_LAPS}]`);
+  return laps;
+};
+
+const parsePlayerName = (value: unknown) => {
+  const name = typeof value === 'string' ? value.trim() : '';
+  if (!name || name.length > MAX_PLAYER_NAME_LENGTH) {
+    throw new HttpError(400, `playerName must be 1-${MAX_PLAYER_NAME_LENGTH} characters`);
+  }
+  return name;
+};
+
+const db = openDatabase(DATABASE_PATH);
+const app = express();
+app.use(express.json({ limit: '1mb' }));
+
+app.post('/api/runs', (req, res) => {
+  const playerName = parsePlayerName(req.body?.playerName);
+  const { replay, time } = verifySubmission(req.body?.replay);
+
+  const board = { trackId: replay.trackId, mode: replay.mode, laps: replay.laps };
+  const previousBest = playerBestTime(db, board, playerName);
+  const id = insertRun(db, {
+    ...board,
+    playerName,
+    time,
+    engineVersion: replay.engineVersion,
+    replay: JSON.stringify(replay),
+  });
+
+  const response: SubmitRunResponse = {
+    id,
+    time,
+    rank: rankOf(db, board, playerName, time),
+    personalBest: previousBest === null || time < previousBest,
+  };
+  res.status(201).json(response);
+});
+
+app.get('/api/leaderboard/:trackId', (req, res) => {
+  const limit = Math.max(1, Math.min(MAX_LIMIT, Number(req.query.limit) || 10));
+  const board = { trackId: req.params.trackId, mode: parseMode(req.query.mode), laps: parseLaps(req.query.laps) };
+  res.json(topRuns(db, board, limit));
+});
+
+app.get('/api/players/:name/bests', (req, res) => {
+  res.json(playerBests(db, parsePlayerName(req.params.name)));
+});
+
+app.use((err: unknown, _req: Request, res: Response, _next: NextFunction) => {
+  if (err instanceof HttpError) {
+    res.status(err.status).json({ error: err.message });
+    return;
+  }
+  // A malformed JSON body, as rejected by express.json()
+  if (err instanceof SyntaxError && (err as { type?: string }).type === 'entity.parse.failed') {
+    res.status(400).json({ error: 'request body is not valid JSON' });
+    return;
+  }
+  console.error(err);
+  res.status(500).json({ error: 'internal server error' });
+});
+
+const server = app.listen(PORT, () => {
+  console.log(`Leaderboard and race server listening on http://localhost:${PORT}`);
+});
+attachRaceServer(server);
@@ -0,0 +1,62 @@
+import type { LeaderboardEntry, PlayerBest } from '../src/api';
+import type { RaceMode } from '../src/game/types';
+import type { Db } from './db';
+
+// --- Queries ---
+// Rankings are by each player's best time on a track, mode and lap count.
+
+export type Board = { trackId: string; mode: RaceMode; laps: number };
+
+export const insertRun = (db: Db, run: Board & { playerName: string; time: number; engineVersion: number; replay: string }) => {
+  const result = db
+    .prepare(`
+      INSERT INTO runs (track_id, mode, laps, player_name, time, engine_version, replay)
+      VALUES (@trackId, @mode, @laps, @playerName, @time, @engineVersion, @replay)
+    `)
+    .run(run);
+  return Number(result.lastInsertRowid);
+};
+
+export const playerBestTime = (db: Db, { trackId, mode, laps }: Board, playerName: string) => {
+  const row = db
+    .prepare('SELECT MIN(time) AS time FROM runs WHERE track_id = ? AND mode = ? AND laps = ? AND player_name = ?')
+    .get(trackId, mode, laps, playerName) as { time: number | null };
+  return row.time;
+};
+
+// 1-based rank `time` would have against every other player's best
+export const rankOf = (db: Db, { trackId, mode, laps }: Board, playerName: string, time: number) => {
+  const row = db
+    .prepare(`
+      SELECT COUNT(*) AS faster FROM (
+        SELECT MIN(time) AS best FROM runs
+        WHERE track_id = ? AND mode = ? AND laps = ? AND player_name != ?
+        GROUP BY player_name
+      ) WHERE best < ?
+    `)
+    .get(trackId, mode, laps, playerName, time) as { faster: number };
+  return row.faster + 1;
+};
+
+export const topRuns = (db: Db, { trackId, mode, laps }: Board, limit: number): LeaderboardEntry[] => {
+  const rows = db
+    .prepare(`
+      SELECT player_name AS playerName, MIN(time) AS time, created_at AS createdAt
+      FROM runs WHERE track_id = ? AND mode = ? AND laps = ?
+      GROUP BY player_name
+      ORDER BY time ASC
+      LIMIT ?
+    `)
+    .all(trackId, mode, laps, limit) as Omit<LeaderboardEntry, 'rank'>[];
+  return rows.map((row, i) => ({ rank: i + 1, ...row }));
+};
+
+export const playerBests = (db: Db, playerName: string): PlayerBest[] =>
+  db
+    .prepare(`
+      SELECT track_id AS trackId, mode, laps, MIN(time) AS time
+      FROM runs WHERE player_name = ?
+      GROUP BY track_id, mode, laps
+      ORDER BY track_id, mode, laps
+    `)
+    .all(playerName) as PlayerBest[];
@@ -0,0 +1,236 @@
+import type { Server } from 'http';
+import { WebSocketServer, type WebSocket } from 'ws';
+import { MAX_PLAYER_NAME_LENGTH } from '../src/api';
+import { COUNTDOWN_TIME } from '../src/game/gameState';
+import { MAX_LAPS } from '../src/game/laps';
+import { MAX_SEED_LENGTH } from '../src/game/random';
+import {
+  MAX_ROOM_PLAYERS,
+  normalizeRoomCode,
+  ONLINE_PATH,
+  ROOM_CODE_ALPHABET,
+  ROOM_CODE_LENGTH,
+  type CarUpdate,
+  type ClientMessage,
+  type OnlineError,
+  type Room,
+  type RoomPlayer,
+  type ServerMessage,
+} from '../src/online';
+
+// --- Race Rooms ---
+// Rooms live in memory only and disappear with their last player. The server
+// doesn't simulate anything: it hands out room codes, starts the countdown for
+// everyone in a room at once and relays car updates between its players.
+
+const MAX_MESSAGE_BYTES = 4 * 1024;
+const HEARTBEAT_INTERVAL = 10_000; // ms; connections that miss a heartbeat are dropped
+const START_DELAY = COUNTDOWN_TIME * 1000;
+
+type Connection = {
+  socket: WebSocket;
+  player: RoomPlayer;
+  room: Room | null;
+  alive: boolean;
+};
+
+class MessageError extends Error {
+  constructor(public error: OnlineError) {
+    super(error);
+    this.name = 'MessageError';
+  }
+}
+
+const parseName = (value: unknown) => {
+  const name = typeof value === 'string' ? value.trim() : '';
+  if (!name || name.length > MAX_PLAYER_NAME_LENGTH) throw new MessageError('invalid');
+  return name;
+};
+
+const parseSeed = (value: unknown) => {
+  const seed = typeof value === 'string' ? value.trim() : '';
+  if (!seed || seed.length > MAX_SEED_LENGTH) throw new MessageError('invalid');
+  return seed;
+};
+
+const parseLaps = (value: unknown) => {
+  if (!Number.isInteger(value) || (value as number) < 1 || (value as number) > MAX_LAPS) throw new MessageError('invalid');
+  return value as number;
+};
+
+const parseNumber = (value: unknown) => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) throw new MessageError('invalid');
+  return value;
+};
+
+const parseCar = (value: unknown): CarUpdate => {
+  const car = value as Partial<CarUpdate> | null;
+  if (!car || typeof car !== 'object') throw new MessageError('invalid');
+  return { distance: parseNumber(car.distance), playerX: parseNumber(car.playerX), speed: parseNumber(car.speed) };
+};
+
+const parseMessage = (data: string): ClientMessage => {
+  let message;
+  try {
+    message = JSON.parse(data);
+  } catch {
+    throw new MessageError('invalid');
+  }
+  if (!message || typeof message.type !== 'string') throw new MessageError('invalid');
+  return message as ClientMessage;
+};
+
+export const attachRaceServer = (server: Server) => {
+  const wss = new WebSocketServer({ server, path: ONLINE_PATH, maxPayload: MAX_MESSAGE_BYTES });
+  const rooms = new Map<string, Room>();
+  const connections = new Map<Room, Set<Connection>>();
+  const live = new Set<Connection>();
+  let nextId = 1;
+
+  const send = (connection: Connection, message: ServerMessage) => {
+    connection.socket.send(JSON.stringify(message));
+  };
+
+  const broadcast = (room: Room, message: ServerMessage, except?: Connection) => {
+    connections.get(room)?.forEach(connection => {
+      if (connection !== except) send(connection, message);
+    });
+  };
+
+  const newCode = () => {
+    let code;
+    do {
+      code = Array.from({ length: ROOM_CODE_LENGTH }, () => ROOM_CODE_ALPHABET[Math.floor(Math.random() * ROOM_CODE_ALPHABET.length)]).join('');
+    } while (rooms.has(code));
+    return code;
+  };
+
+  // Back to the lobby once nobody is still driving
+  const checkRaceOver = (room: Room) => {
+    if (room.phase === 'racing' && room.players.every(player => player.finishTime !== null || player.retired)) {
+      room.phase = 'lobby';
+    }
+  };
+
+  const enter = (connection: Connection, room: Room) => {
+    const taken = new Set(room.players.map(player => player.slot));
+    connection.player.slot = [...Array(MAX_ROOM_PLAYERS).keys()].find(slot => !taken.has(slot)) ?? 0;
+    connection.player.host = room.players.length === 0;
+    connection.player.finishTime = null;
+    connection.player.retired = false;
+    connection.room = room;
+    room.players.push(connection.player);
+    connections.set(room, (connections.get(room) ?? new Set()).add(connection));
+    broadcast(room, { type: 'room', room });
+  };
+
+  const exit = (connection: Connection) => {
+    const room = connection.room;
+    if (!room) return;
+    connection.room = null;
+    room.players = room.players.filter(player => player !== connection.player);
+    connections.get(room)?.delete(connection);
+    if (!room.players.length) {
+      rooms.delete(room.code);
+      connections.delete(room);
+      return;
+    }
+    if (connection.player.host) room.players[0].host = true;
+    checkRaceOver(room);
+    broadcast(room, { type: 'room', room });
+  };
+
+  const handle = (connection: Connection, message: ClientMessage) => {
+    const { player, room } = connection;
+    switch (message.type) {
+      case 'create': {
+        player.name = parseName(message.name);
+        const created: Room = { code: newCode(), seed: parseSeed(message.seed), laps: parseLaps(message.laps), phase: 'lobby', players: [] };
+        exit(connection);
+        rooms.set(created.code, created);
+        enter(connection, created);
+        break;
+      }
+      case 'join': {
+        player.name = parseName(message.name);
+        const joined = rooms.get(normalizeRoomCode(String(message.code)));
+        if (!joined) throw new MessageError('not-found');
+        if (joined === room) break;
+        if (joined.phase === 'racing') throw new MessageError('in-progress');
+        if (joined.players.length >= MAX_ROOM_PLAYERS) throw new MessageError('full');
+        exit(connection);
+        enter(connection, joined);
+        break;
+      }
+      case 'leave':
+        exit(connection);
+        send(connection, { type: 'room', room: null });
+        break;
+      case 'start':
+        if (!room) throw new MessageError('not-found');
+        if (!player.host) throw new MessageError('not-host');
+        if (room.phase === 'racing') throw new MessageError('in-progress');
+        room.phase = 'racing';
+        room.players.forEach(entry => {
+          entry.finishTime = null;
+          entry.retired = false;
+        });
+        broadcast(room, { type: 'room', room });
+        broadcast(room, { type: 'start', delay: START_DELAY });
+        break;
+      case 'update':
+        if (room?.phase === 'racing') broadcast(room, { type: 'update', id: player.id, car: parseCar(message.car) }, connection);
+        break;
+      case 'finish':
+      case 'retire':
+        if (room?.phase !== 'racing' || player.finishTime !== null || player.retired) break;
+        if (message.type === 'finish') player.finishTime = parseNumber(message.time);
+        else player.retired = true;
+        checkRaceOver(room);
+        broadcast(room, { type: 'room', room });
+        break;
+      case 'ping':
+        send(connection, { type: 'pong', sentAt: parseNumber(message.sentAt) });
+        break;
+      default:
+        throw new MessageError('invalid');
+    }
+  };
+
+  wss.on('connection', socket => {
+    const player: RoomPlayer = { id: nextId++, name: '', slot: 0, host: false, finishTime: null, retired: false };
+    const connection: Connection = { socket, player, room: null, alive: true };
+    live.add(connection);
+    send(connection, { type: 'welcome', id: player.id });
+
+    socket.on('message', data => {
+      try {
+        handle(connection, parseMessage(data.toString()));
+      } catch (err) {
+        if (!(err instanceof MessageError)) console.error(err);
+        send(connection, { type: 'error', error: err instanceof MessageError ? err.error : 'invalid' });
+      }
+    });
+    socket.on('pong', () => {
+      connection.alive = true;
+    });
+    socket.on('close', () => {
+      live.delete(connection);
+      exit(connection);
+    });
+  });
+
+  const heartbeat = setInterval(() => {
+    live.forEach(connection => {
+      if (!connection.alive) {
+        connection.socket.terminate();
+        return;
+      }
+      connection.alive = false;
+      connection.socket.ping();
+    });
+  }, HEARTBEAT_INTERVAL);
+  wss.on('close', () => clearInterval(heartbeat));
+
+  return wss;
+};
@@ -0,0 +1,52 @@
+import { createCars } from '../src/game/cars';
+import { SEGMENT_LENGTH } from '../src/game/constants';
+import { STEP } from '../src/game/engine';
+import { createReplayPlayer, parseReplay, ReplayFormatError, type Replay } from '../src/game/replay';
+import { buildSegments } from '../src/game/track';
+import { findTrackDefinition } from '../src/tracks';
+import { HttpError } from './http';
+
+// --- Run Verification ---
+// A submitted time is only trusted if re-simulating the run's inputs on the
+// server reaches the finish line at that same time.
+
+const MAX_TICKS = 60 * 60 * 30; // 30 minutes of racing
+
+export class RunRejectedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RunRejectedError';
+  }
+}
+
+// Returns the verified finishing time, or throws RunRejectedError
+export const verifyRun = (replay: Replay) => {
+  const definition = findTrackDefinition(replay.trackId);
+  if (!definition) throw new RunRejectedError(`unknown track "${replay.trackId}"`);
+  if (replay.ticks > MAX_TICKS) throw new RunRejectedError('run is too long');
+
+  const segments = buildSegments(definition);
+  const cars = createCars(replay.mode, replay.trackId, segments.length * SEGMENT_LENGTH);
+  const player = createReplayPlayer(replay, segments, cars);
+  for (let tick = 0; tick < replay.ticks && !player.state.finished; tick++) player.advance();
+
+  if (!player.state.finished) throw new RunRejectedError('replay does not reach the finish line');
+  if (Math.abs(player.state.time - replay.time) > STEP / 2) {
+    throw new RunRejectedError(`claimed time ${replay.time.toFixed(3)}s does not match the replay (${player.state.time.toFixed(3)}s)`);
+  }
+  return player.state.time;
+};
+
+// Parses and verifies a submitted replay. A malformed replay or one from
+// another version is a bad request (400); a well-formed one that doesn't hold
+// up is unprocessable (422).
+export const verifySubmission = (data: unknown) => {
+  try {
+    const replay = parseReplay(data);
+    return { replay, time: verifyRun(replay) };
+  } catch (err) {
+    if (err instanceof ReplayFormatError) throw new HttpError(400, err.message);
+    if (err instanceof RunRejectedError) throw new HttpError(422, `run rejected: ${err.message}`);
+    throw err;
+  }
+};
@@ -3,407 +3,744 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import React, { useState, useEffect, useRef, useCallback } from 'react';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import { motion, AnimatePresence } from 'motion/react';
-import { Play, RotateCcw, Trophy, Timer, Gauge, ChevronLeft, ChevronRight } from 'lucide-react';
-
-// --- Constants & Types ---
-
-const ROAD_WIDTH = 2000;
-const SEGMENT_LENGTH = 200;
-const RUMBLE_LENGTH = 3;
-const LANES = 3;
-const DRAW_DISTANCE = 300;
-const CAMERA_HEIGHT = 1000;
-const CAMERA_DEPTH = 0.8; // z-depth of camera
-const FOG_DENSITY = 5;
-const MAX_SPEED = SEGMENT_LENGTH / (1 / 60); // segments per second
-const ACCEL = MAX_SPEED / 5;
-const BREAKING = -MAX_SPEED;
-const DECEL = -MAX_SPEED / 5;
-const OFF_ROAD_DECEL = -MAX_SPEED / 2;
-const OFF_ROAD_LIMIT = MAX_SPEED / 4;
-
-type ColorSet = {
-  road: string;
-  grass: string;
-  rumble: string;
-  lane?: string;
-};
-
-const COLORS = {
-  LIGHT: { road: '#6B7280', grass: '#10B981', rumble: '#F9FAFB', lane: '#F9FAFB' },
-  DARK: { road: '#4B5563', grass: '#059669', rumble: '#111827' },
-  START: { road: '#FFFFFF', grass: '#FFFFFF', rumble: '#FFFFFF' },
-  FINISH: { road: '#000000', grass: '#000000', rumble: '#000000' },
-};
-
-type Point = { x: number; y: number; z: number; screenX: number; screenY: number; screenW: number };
-type Segment = {
-  index: number;
-  p1: Point;
-  p2: Point;
-  curve: number;
-  sprites: Sprite[];
-  color: ColorSet;
-};
-
-type Sprite = {
-  source: string;
-  x: number; // -1 to 1 (offset from center)
-  w: number;
-  h: number;
-  type: 'obstacle' | 'prop' | 'boost';
-};
-
-type GameState = 'START' | 'PLAYING' | 'FINISHED' | 'GAMEOVER';
-
-// --- Utils ---
-
-const project = (p: Point, cameraX: number, cameraY: number, cameraZ: number, width: number, height: number, roadWidth: number) => {
-  const worldX = p.x - cameraX;
-  const worldY = p.y - cameraY;
-  const worldZ = p.z - cameraZ;
-  const scale = CAMERA_DEPTH / worldZ;
-
-  p.screenX = Math.round((width / 2) + (scale * worldX * width / 2));
-  p.screenY = Math.round((height / 2) - (scale * worldY * height / 2));
-  p.screenW = Math.round(scale * roadWidth * width / 2);
-};
-
-const drawPolygon = (ctx: CanvasRenderingContext2D, x1: number, y1: number, w1: number, x2: number, y2: number, w2: number, color: string) => {
-  ctx.fillStyle = color;
-  ctx.beginPath();
-  ctx.moveTo(x1 - w1, y1);
-  ctx.lineTo(x2 - w2, y2);
-  ctx.lineTo(x2 + w2, y2);
-  ctx.lineTo(x1 + w1, y1);
-  ctx.closePath();
-  ctx.fill();
-};
-
-const drawSprite = (ctx: CanvasRenderingContext2D, width: number, height: number, roadWidth: number, segment: Segment, sprite: Sprite, destX: number) => {
-  const scale = segment.p1.screenW / roadWidth;
-  const destY = segment.p1.screenY;
-  const destW = (sprite.w * scale * width / 2);
-  const destH = (sprite.h * scale * width / 2);
-
-  const x = destX + (destW * sprite.x);
-  const y = destY - destH;
-
-  // Simple shapes instead of images for "Cartoon 3D" look
-  if (sprite.type === 'obstacle') {
-    ctx.fillStyle = '#4B5563'; // Stone color
-    ctx.beginPath();
-    ctx.ellipse(x + destW / 2, y + destH / 2, destW / 2, destH / 2, 0, 0, Math.PI * 2);
-    ctx.fill();
-    ctx.strokeStyle = '#1F2937';
-    ctx.lineWidth = 2;
-    ctx.stroke();
-  } else if (sprite.type === 'boost') {
-    ctx.fillStyle = '#FBBF24'; // Gold/Yellow
-    ctx.beginPath();
-    ctx.arc(x + destW / 2, y + destH / 2, destW / 2, 0, Math.PI * 2);
-    ctx.fill();
-    ctx.strokeStyle = '#D97706';
-    ctx.stroke();
-  } else {
-    ctx.fillStyle = '#065F46'; // Tree
-    ctx.beginPath();
-    ctx.moveTo(x + destW / 2, y);
-    ctx.lineTo(x, y + destH);
-    ctx.lineTo(x + destW, y + destH);
-    ctx.closePath();
-    ctx.fill();
-  }
-};
+import { Play, RotateCcw, Trophy, Timer, Gauge, ChevronLeft, ChevronRight, Download, Flag, Gamepad2, Repeat, Hourglass, Wrench, Pause, LogOut, CarFront, Unlock, User, PencilRuler, Infinity as InfinityIcon } from 'lucide-react';
+import AchievementToasts from './components/AchievementToasts';
+import ControlsScreen from './components/ControlsScreen';
+import DebugOverlay, { type DebugCar } from './components/DebugOverlay';
+import AtmospherePicker, { parseAtmosphereChoice, type AtmosphereChoice } from './components/AtmospherePicker';
+import GarageScreen from './components/GarageScreen';
+import GhostControls, { exportReplay } from './components/GhostControls';
+import LapPicker from './components/LapPicker';
+import LeaderboardPanel from './components/LeaderboardPanel';
+import Minimap, { type MinimapCar } from './components/Minimap';
+import ModePicker from './components/ModePicker';
+import OnlineLobby, { OnlineStandings } from './components/OnlineLobby';
+import ProfileScreen from './components/ProfileScreen';
+import TrackEditor from './components/TrackEditor';
+import TrackPicker, { RANDOM_TRACK_ID } from './components/TrackPicker';
+import VersusHud, { PLAYER_NAMES, toPlayerHud, type PlayerHud } from './components/VersusHud';
+import type { Achievement } from './achievements';
+import { createAssetManager, type AssetManager } from './assets';
+import { applyTuning, createProfiler, DEFAULT_TUNING, isTuned, parseShowDebug, type FrameSample, type Profiler, type Tuning } from './debug';
+import { newTrack, openEditor, startFrom, type TrackEditor as Editor } from './editor';
+import { createAudioManager, DEFAULT_VOLUMES, parseVolumes, SILENT_ENGINE, type AudioManager, type Volumes } from './audio';
+import { ATMOSPHERE_IDS, DEFAULT_ATMOSPHERE, updateParticles } from './game/atmosphere';
+import { MAX_SPEED, PLAYER_Z, SEGMENT_LENGTH } from './game/constants';
+import { createCars, getStandings, OPPONENT_COUNT, racePosition, type Standing } from './game/cars';
+import { MAX_DAMAGE } from './game/collision';
+import { createEndlessTrack, endlessDifficulty, endlessDistance, endlessScore, ENDLESS_SETTINGS, parseScore } from './game/endless';
+import { advanceClock, createClock, createEngineState, findSegment, NO_INPUT, step, type EngineState, type Failure, type FixedStepClock, type Input } from './game/engine';
+import { countdownTime, isPausable, isRacing, nextGameState } from './game/gameState';
+import { generateTrack, SEED_TRACK_PREFIX } from './game/generator';
+import { DEFAULT_RACE_SETTINGS, formatDelta, parseLapRecord, raceProgress, type LapRecord, type RaceSettings } from './game/laps';
+import { normalizeSeed, randomSeed } from './game/random';
+import { createRecorder, createReplayPlayer, parseReplay, replaySettings, type Replay, type ReplayPlayer, type ReplayRecorder } from './game/replay';
+import { buildSegments, loadTrack, parseTrack, type TrackDefinition } from './game/track';
+import { DEFAULT_VEHICLE, findVehicle, isUnlocked, parseVehicleId, VEHICLES, type Vehicle, type VehicleId } from './game/vehicles';
+import { createVersusStates, isVersusOver, versusResult, type VersusResult } from './game/versus';
+import type { GameState, RaceMode } from './game/types';
+import { createInputManager, DEFAULT_BINDINGS, parseBindings, type Bindings, type InputManager } from './input';
+import { createProfileStore, createRun, tallyEvents, updateRun, type ProfileStore, type Run } from './profile';
+import { createOnlineManager, gridX, onlinePlace, type OnlineManager, type OnlineStatus, type Room, type RoomPlayer } from './online';
+import { createRenderer, parseRendererChoice, type Renderer, type RendererChoice } from './render/renderer';
+import { trackOutline } from './render/minimap';
+import { createAtmosphereView, drawRearView, drawScene, GHOST_COLORS, ONLINE_COLORS, PLAYER_COLORS, type AtmosphereView, type PlayerCar, type Rival, type SceneStats } from './render/scene';
+import { createViewport, DEFAULT_RENDER_SCALE, fitCanvas, mirrorViewport, parseRearView, parseRenderScale, splitLayout, splitViewports, type RenderScale, type SplitLayout } from './render/viewport';
+import { loadJSON, saveJSON } from './storage';
+import { TRACKS } from './tracks';
+
+type SplitFlash = { label: string; time: number; delta: number | null; shownAt: number };
+
+type TestDrive = { track: TrackDefinition; segment: number }; // a track from the editor, driven from `segment`
+
+const SPLIT_FLASH_TIME = 2.5; // seconds a split stays on the HUD
+const MAX_COUNTDOWN_STEP = 0.1; // seconds, so a long frame doesn't skip the countdown
+const TOAST_TIME = 4000; // ms each achievement toast stays up
+const DEBUG_REFRESH = 100; // ms between debug overlay updates
+
+// Personal best on a single lap of `trackId`, which is what unlocks vehicles
+const localBestTime = (trackId: string) => loadJSON(`ghost:${trackId}`, parseReplay)?.time ?? null;
 
 // --- Main Component ---
 
 export default function App() {
   const [gameState, setGameState] = useState<GameState>('START');
-  const [score, setScore] = useState(0);
+  const [countdown, setCountdown] = useState(0); // whole seconds left in COUNTDOWN and RESUMING
+  const [score, setScore] = useState(0); // endless mode only
+  const [level, setLevel] = useState(1);
+  const [bestScore, setBestScore] = useState(() => loadJSON('endlessBest', parseScore) ?? 0);
   const [time, setTime] = useState(0);
   const [speed, setSpeed] = useState(0);
   const [distance, setDistance] = useState(0);
-  const [bestTime, setBestTime] = useState<number | null>(null);
+  const [trackId, setTrackId] = useState(() => {
+    const params = new URLSearchParams(window.location.search);
+    if (params.has('seed')) return RANDOM_TRACK_ID;
+    const requested = TRACKS.find(entry => entry.id === params.get('track') && entry.track);
+    return (requested ?? TRACKS.find(entry => entry.track))?.id ?? RANDOM_TRACK_ID;
+  });
+  const [seed, setSeed] = useState(() => normalizeSeed(new URLSearchParams(window.location.search).get('seed') ?? '') || randomSeed());
+  const [testDrive, setTestDrive] = useState<TestDrive | null>(null);
+
+  const track = useMemo(() => {
+    if (testDrive) return loadTrack(testDrive.track);
+    if (trackId === RANDOM_TRACK_ID) return seed ? loadTrack(generateTrack(seed)) : null;
+    return TRACKS.find(entry => entry.id === trackId)?.track ?? null;
+  }, [trackId, seed, testDrive]);
+  const trackKey = track?.definition.id ?? '';
+  const outline = useMemo(() => (track ? trackOutline(buildSegments(track.definition)) : null), [track]);
+
+  const [mode, setMode] = useState<RaceMode>('solo');
+  const [place, setPlace] = useState(1);
+  const [standings, setStandings] = useState<Standing[]>([]);
+
+  const [settings, setSettings] = useState<RaceSettings>(DEFAULT_RACE_SETTINGS);
+  const [atmosphereChoice, setAtmosphereChoice] = useState<AtmosphereChoice>(() => loadJSON('atmosphere', parseAtmosphereChoice) ?? 'track');
+
+  useEffect(() => {
+    saveJSON('atmosphere', atmosphereChoice);
+  }, [atmosphereChoice]);
+  const [lap, setLap] = useState(1);
+  const [lastLap, setLastLap] = useState<number | null>(null);
+  const [bestLap, setBestLap] = useState<LapRecord | null>(null);
+  const [splitFlash, setSplitFlash] = useState<SplitFlash | null>(null);
+  const [timeLeft, setTimeLeft] = useState(Infinity);
+  const [checkpointsPassed, setCheckpointsPassed] = useState(0);
+  const [damage, setDamage] = useState(0);
+  const [driftCharge, setDriftCharge] = useState<number | null>(null); // 0 to 1 while drifting
+  const [failure, setFailure] = useState<Failure | null>(null);
+  const [playerHuds, setPlayerHuds] = useState<PlayerHud[]>([]); // versus mode only
+  const [versus, setVersus] = useState<VersusResult | null>(null);
+  const [layout, setLayout] = useState<SplitLayout>(() => splitLayout(window.innerWidth, window.innerHeight));
+
+  useEffect(() => {
+    const onResize = () => setLayout(splitLayout(window.innerWidth, window.innerHeight));
+    window.addEventListener('resize', onResize);
+    return () => window.removeEventListener('resize', onResize);
+  }, []);
+
+  // Best times and ghosts are kept per lap count; single-lap keys predate multi-lap races
+  const recordKey = settings.laps > 1 ? `${trackKey}:${settings.laps}laps` : trackKey;
+
+  const [personalBest, setPersonalBest] = useState<Replay | null>(null);
+  const [importedGhost, setImportedGhost] = useState<Replay | null>(null);
+  const [lastReplay, setLastReplay] = useState<Replay | null>(null);
+  const ghostReplay = importedGhost?.trackId === trackKey && importedGhost.laps === settings.laps ? importedGhost : personalBest;
+  const bestTime = personalBest?.time ?? null;
+
+  useEffect(() => {
+    setPersonalBest(trackKey ? loadJSON(`ghost:${recordKey}`, parseReplay) : null);
+  }, [trackKey, recordKey]);
+
+  // --- Garage ---
+
+  const [vehicleId, setVehicleId] = useState<VehicleId>(() => loadJSON('vehicle', parseVehicleId) ?? DEFAULT_VEHICLE.id);
+  const [showGarage, setShowGarage] = useState(false);
+  const [newVehicles, setNewVehicles] = useState<Vehicle[]>([]); // unlocked by the last run
+
+  // A stored choice that is locked again (cleared best times) falls back to the default car
+  const vehicle = useMemo(() => {
+    const chosen = findVehicle(vehicleId);
+    return chosen && isUnlocked(chosen, localBestTime) ? chosen : DEFAULT_VEHICLE;
+  }, [vehicleId, personalBest]);
+
+  useEffect(() => {
+    saveJSON('vehicle', vehicleId);
+  }, [vehicleId]);
+
+  // Lap times compare across lap counts, so the best lap is kept per track
+  useEffect(() => {
+    setBestLap(trackKey ? loadJSON(`bestLap:${trackKey}`, parseLapRecord) : null);
+  }, [trackKey]);
+
+  const [onlineStatus, setOnlineStatus] = useState<OnlineStatus>('offline');
+  const [room, setRoom] = useState<Room | null>(null);
+  const [roomSelf, setRoomSelf] = useState<RoomPlayer | null>(null);
+  const [onlineError, setOnlineError] = useState<string | null>(null);
+  const [onlineStarts, setOnlineStarts] = useState(0); // bumped by every synchronized start
+  const onlineSlot = mode === 'online' ? roomSelf?.slot ?? 0 : 0;
 
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const requestRef = useRef<number>(null);
-  const gameRef = useRef({
-    position: 0,
-    playerX: 0,
-    playerZ: 0,
-    speed: 0,
-    trackLength: 0,
-    segments: [] as Segment[],
-    startTime: 0,
-    boostTimer: 0,
-  });
+  const gameRef = useRef<EngineState>(createEngineState([]));
+  const inputRef = useRef<InputManager>(null);
+  const audioRef = useRef<AudioManager>(null);
+  const clockRef = useRef<FixedStepClock>(createClock());
+  const recorderRef = useRef<ReplayRecorder>(createRecorder());
+  const ghostRef = useRef<ReplayPlayer | null>(null);
+  const rivalRef = useRef<EngineState | null>(null); // player two in versus mode
+  const onlineRef = useRef<OnlineManager>(null);
+  const profileRef = useRef<ProfileStore>(null);
+  const runRef = useRef<Run | null>(null); // stats of the race in progress, none in versus mode
+  const assetsRef = useRef<AssetManager>(null);
+  const atmosphereRef = useRef<AtmosphereView>(createAtmosphereView(DEFAULT_ATMOSPHERE));
+  const rendererRef = useRef<Renderer>(null);
+
+  // --- Assets ---
+
+  const [assetProgress, setAssetProgress] = useState({ loaded: 0, total: 1 });
+  const [assetsReady, setAssetsReady] = useState(false);
+
+  useEffect(() => {
+    const assets = createAssetManager();
+    assetsRef.current = assets;
+    assets.load((loaded, total) => setAssetProgress({ loaded, total })).then(() => setAssetsReady(true));
+  }, []);
+
+  // --- Renderer ---
+
+  const [rendererChoice, setRendererChoice] = useState<RendererChoice>(() => loadJSON('renderer', parseRendererChoice) ?? 'auto');
+  const [rendererKind, setRendererKind] = useState<Renderer['kind'] | null>(null);
+  const [renderScale, setRenderScale] = useState<RenderScale>(() => loadJSON('renderScale', parseRenderScale) ?? DEFAULT_RENDER_SCALE);
+  const [rearView, setRearView] = useState(() => loadJSON('rearView', parseRearView) ?? false);
+  const [minimapCars, setMinimapCars] = useState<MinimapCar[]>([]); // not in endless or versus mode
+
+  // The canvas is keyed on the choice, so this always gets a fresh element
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const renderer = createRenderer(canvas, rendererChoice);
+    rendererRef.current = renderer;
+    setRendererKind(renderer.kind);
+    saveJSON('renderer', rendererChoice);
+    return () => {
+      renderer.dispose();
+      rendererRef.current = null;
+    };
+  }, [rendererChoice]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    saveJSON('renderScale', renderScale);
+    return fitCanvas(canvas, renderScale);
+  }, [rendererChoice, renderScale]);
+
+  useEffect(() => {
+    saveJSON('rearView', rearView);
+  }, [rearView]);
+
+  // --- Debug ---
+
+  const [showDebug, setShowDebug] = useState(() => loadJSON('debug', parseShowDebug) ?? false);
+  // Not saved, so a reload always gets back to the real values
+  const [tuning, setTuning] = useState<Tuning>(DEFAULT_TUNING);
+  // Online everyone races on the same physics; the others couldn't tell otherwise
+  const activeTuning = mode === 'online' ? DEFAULT_TUNING : tuning;
+  const [debugSamples, setDebugSamples] = useState<FrameSample[]>([]);
+  const [debugCar, setDebugCar] = useState<DebugCar | null>(null);
+  const profilerRef = useRef<Profiler>(createProfiler());
+  const lastDebugRefresh = useRef(0);
+  const tunedRef = useRef(false); // the race in progress has run on tuned values at some point
+
+  useEffect(() => {
+    saveJSON('debug', showDebug);
+  }, [showDebug]);
+
+  // Retunes the race in progress, which then no longer counts
+  useEffect(() => {
+    applyTuning(gameRef.current, activeTuning);
+    if (rivalRef.current) applyTuning(rivalRef.current, activeTuning);
+    if (isTuned(activeTuning)) {
+      tunedRef.current = true;
+      runRef.current = null;
+    }
+  }, [activeTuning]);
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== 'F3') return;
+      e.preventDefault();
+      setShowDebug(show => !show);
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
 
   // --- Track Generation ---
 
   const resetTrack = useCallback(() => {
-    const segments: Segment[] = [];
-    const totalSegments = 500;
-
-    for (let n = 0; n < totalSegments; n++) {
-      const isFinish = n > totalSegments - 10;
-      const isStart = n < 10;
-      
-      segments.push({
-        index: n,
-        p1: { x: 0, y: 0, z: n * SEGMENT_LENGTH, screenX: 0, screenY: 0, screenW: 0 },
-        p2: { x: 0, y: 0, z: (n + 1) * SEGMENT_LENGTH, screenX: 0, screenY: 0, screenW: 0 },
-        curve: n > 100 && n < 200 ? 2 : (n > 300 && n < 400 ? -2 : 0),
-        sprites: [],
-        color: isFinish ? COLORS.FINISH : (isStart ? COLORS.START : (Math.floor(n / RUMBLE_LENGTH) % 2 ? COLORS.DARK : COLORS.LIGHT)),
-      });
-
-      // Add obstacles/props
-      if (n > 20 && !isFinish) {
-        if (n % 20 === 0) {
-          segments[n].sprites.push({
-            source: '',
-            x: (Math.random() * 2 - 1) * 0.8,
-            w: 100,
-            h: 100,
-            type: 'obstacle'
-          });
-        }
-        if (n % 50 === 0) {
-          segments[n].sprites.push({
-            source: '',
-            x: (Math.random() * 2 - 1) * 0.5,
-            w: 80,
-            h: 80,
-            type: 'boost'
-          });
-        }
-        // Trees on the side
-        if (n % 5 === 0) {
-          segments[n].sprites.push({
-            source: '',
-            x: -1.5 - Math.random() * 2,
-            w: 150,
-            h: 300,
-            type: 'prop'
-          });
-          segments[n].sprites.push({
-            source: '',
-            x: 1.5 + Math.random() * 2,
-            w: 150,
-            h: 300,
-            type: 'prop'
-          });
-        }
-      }
+    rivalRef.current = null;
+    if (mode === 'endless') {
+      const endless = createEndlessTrack(randomSeed());
+      gameRef.current = createEngineState(endless.segments, [], ENDLESS_SETTINGS, vehicle, endless.stream);
+      ghostRef.current = null;
+    } else if (!track) {
+      gameRef.current = createEngineState([]);
+      ghostRef.current = null;
+    } else if (testDrive) {
+      gameRef.current = createEngineState(buildSegments(track.definition), [], settings, vehicle);
+      startFrom(gameRef.current, testDrive.segment);
+      ghostRef.current = null;
+    } else if (mode === 'versus') {
+      [gameRef.current, rivalRef.current] = createVersusStates(track.definition, settings);
+      ghostRef.current = null;
+    } else if (mode === 'online') {
+      gameRef.current = createEngineState(buildSegments(track.definition), [], settings, vehicle);
+      gameRef.current.playerX = gridX(onlineSlot);
+      ghostRef.current = null;
+    } else {
+      gameRef.current = createEngineState(buildSegments(track.definition), createCars(mode, trackKey, track.length), settings, vehicle);
+      ghostRef.current = ghostReplay
+        ? createReplayPlayer(ghostReplay, buildSegments(track.definition), createCars(ghostReplay.mode, trackKey, track.length))
+        : null;
     }
+    setPlayerHuds(rivalRef.current ? [toPlayerHud(gameRef.current), toPlayerHud(rivalRef.current)] : []);
+    inputRef.current?.reset();
+    clockRef.current = createClock();
+    recorderRef.current = createRecorder();
+    setLastLap(null);
+    setSplitFlash(null);
+    setMinimapCars([]);
+
+    const atmosphere = atmosphereChoice === 'random'
+      ? ATMOSPHERE_IDS[Math.floor(Math.random() * ATMOSPHERE_IDS.length)]
+      : (atmosphereChoice === 'track' ? track?.definition.atmosphere ?? DEFAULT_ATMOSPHERE : atmosphereChoice);
+    if (atmosphere !== atmosphereRef.current.id) atmosphereRef.current = createAtmosphereView(atmosphere);
+  }, [track, trackKey, mode, settings, atmosphereChoice, ghostReplay, onlineSlot, vehicle, testDrive]);
+
+  // Keep the URL in sync so the current layout can be shared as a link
+  useEffect(() => {
+    const url = new URL(window.location.href);
+    url.searchParams.delete('seed');
+    url.searchParams.delete('track');
+    if (trackId === RANDOM_TRACK_ID) url.searchParams.set('seed', seed);
+    else url.searchParams.set('track', trackId);
+    window.history.replaceState(null, '', url);
+  }, [trackId, seed]);
+
+  // --- Input ---
+
+  const [bindings, setBindings] = useState<Bindings>(() => loadJSON('bindings', parseBindings) ?? DEFAULT_BINDINGS);
+  const [showControls, setShowControls] = useState(false);
+
+  useEffect(() => {
+    const manager = createInputManager(DEFAULT_BINDINGS);
+    inputRef.current = manager;
+    return () => manager.dispose();
+  }, []);
+
+  useEffect(() => {
+    inputRef.current?.setBindings(bindings);
+    saveJSON('bindings', bindings);
+  }, [bindings]);
+
+  // --- Audio ---
+
+  const [volumes, setVolumes] = useState<Volumes>(() => loadJSON('volumes', parseVolumes) ?? DEFAULT_VOLUMES);
+
+  useEffect(() => {
+    const manager = createAudioManager(DEFAULT_VOLUMES);
+    audioRef.current = manager;
+    return () => manager.dispose();
+  }, []);
+
+  useEffect(() => {
+    audioRef.current?.setVolumes(volumes);
+    saveJSON('volumes', volumes);
+  }, [volumes]);
+
+  // --- Profile ---
+
+  const [showProfile, setShowProfile] = useState(false);
+  const [toasts, setToasts] = useState<Achievement[]>([]);
 
-    gameRef.current.segments = segments;
-    gameRef.current.trackLength = segments.length * SEGMENT_LENGTH;
-    gameRef.current.position = 0;
-    gameRef.current.playerX = 0;
-    gameRef.current.speed = 0;
-    gameRef.current.boostTimer = 0;
+  useEffect(() => {
+    profileRef.current = createProfileStore();
+  }, []);
+
+  // Toasts leave one at a time, oldest first
+  useEffect(() => {
+    if (!toasts.length) return;
+    const timer = window.setTimeout(() => setToasts(current => current.slice(1)), TOAST_TIME);
+    return () => window.clearTimeout(timer);
+  }, [toasts]);
+
+  const showAchievements = (unlocked: Achievement[]) => {
+    if (unlocked.length) setToasts(current => [...current, ...unlocked]);
+  };
+
+  // Adds the run in progress to the profile, once, however it ended
+  const endRun = () => {
+    const run = runRef.current;
+    if (!run) return;
+    runRef.current = null;
+    updateRun(run, gameRef.current);
+    showAchievements(profileRef.current?.record(run) ?? []);
+  };
+
+  // --- Track Editor ---
+
+  const [editor, setEditor] = useState<Editor | null>(null); // open while set, kept through test drives
+
+  // The track being edited survives reloads; its history doesn't
+  useEffect(() => {
+    if (editor) saveJSON('editorTrack', editor.track);
+  }, [editor?.track]);
+
+  const openTrackEditor = () => setEditor(openEditor(loadJSON('editorTrack', data => parseTrack(data, { closed: false })) ?? newTrack()));
+
+  // Test drives are solo runs with nothing recorded, and end back in the editor
+  const startTestDrive = (track: TrackDefinition, segment: number) => {
+    setMode('solo');
+    setTestDrive({ track, segment });
+  };
+
+  useEffect(() => {
+    if (gameState === 'START') setTestDrive(null);
+  }, [gameState]);
+
+  // --- Online ---
+
+  // A room decides the track: its seed and lap count replace whatever was picked
+  useEffect(() => {
+    const manager = createOnlineManager({
+      onStatus: setOnlineStatus,
+      onRoom: (next, self) => {
+        setRoom(next);
+        setRoomSelf(self);
+        if (!next) return;
+        setOnlineError(null);
+        setTrackId(RANDOM_TRACK_ID);
+        setSeed(next.seed);
+        setSettings(current => (current.laps === next.laps && !current.timeLimit ? current : { laps: next.laps, timeLimit: false }));
+      },
+      onStart: () => setOnlineStarts(count => count + 1),
+      onError: setOnlineError,
+    });
+    onlineRef.current = manager;
+    return () => manager.dispose();
+  }, []);
+
+  useEffect(() => {
+    if (mode !== 'online') onlineRef.current?.leave();
+  }, [mode]);
+
+  // --- Game State ---
+
+  const countdownRef = useRef(0);
+
+  const transition = useCallback((to: GameState) => setGameState(from => nextGameState(from, to)), []);
+
+  useEffect(() => {
+    countdownRef.current = countdownTime(gameState);
+    setCountdown(Math.ceil(countdownRef.current));
+  }, [gameState]);
+
+  // Pause when the page is hidden or loses focus; Escape or P toggles
+  useEffect(() => {
+    const autoPause = () => setGameState(from => (isPausable(from) ? 'PAUSED' : from));
+    const onVisibilityChange = () => {
+      if (document.hidden) autoPause();
+    };
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== 'Escape' && e.code !== 'KeyP') return;
+      setGameState(from => (isPausable(from) ? 'PAUSED' : (from === 'PAUSED' ? 'RESUMING' : from)));
+    };
+    document.addEventListener('visibilitychange', onVisibilityChange);
+    window.addEventListener('blur', autoPause);
+    window.addEventListener('keydown', onKeyDown);
+    return () => {
+      document.removeEventListener('visibilitychange', onVisibilityChange);
+      window.removeEventListener('blur', autoPause);
+      window.removeEventListener('keydown', onKeyDown);
+    };
   }, []);
 
   // --- Game Loop ---
 
-  const update = useCallback((dt: number) => {
+  const update = useCallback((frameTime: number) => {
     const game = gameRef.current;
-    if (gameState !== 'PLAYING') return;
-
-    // Handle Input (simplified for this demo, usually would use key listeners or touch state)
-    // Here we'll assume automatic acceleration and external steering via state/refs
-    
-    const targetSpeed = game.boostTimer > 0 ? MAX_SPEED * 1.5 : MAX_SPEED;
-    game.speed = Math.min(game.speed + ACCEL * dt, targetSpeed);
-
-    // Off-road penalty
-    if (Math.abs(game.playerX) > 1) {
-      if (game.speed > OFF_ROAD_LIMIT) {
-        game.speed += OFF_ROAD_DECEL * dt;
-      }
+    if ((gameState === 'COUNTDOWN' || gameState === 'RESUMING') && countdownRef.current > 0) {
+      // Online races start on the server's signal rather than the local clock
+      const synced = mode === 'online' && gameState === 'COUNTDOWN' ? onlineRef.current?.startsIn() ?? null : null;
+      countdownRef.current = synced ?? countdownRef.current - Math.min(frameTime, MAX_COUNTDOWN_STEP);
+      setCountdown(Math.max(0, Math.ceil(countdownRef.current)));
+      if (countdownRef.current <= 0) transition('PLAYING');
     }
+    if (mode === 'online' && isRacing(gameState)) onlineRef.current?.sendState(game);
+    if (gameState !== 'PLAYING' || !game.segments.length) {
+      audioRef.current?.updateEngine(SILENT_ENGINE);
+      return;
+    }
+
+    const rival = rivalRef.current;
+    if (rival) {
+      const players: [EngineState, EngineState] = [game, rival];
+      const wasOver = isVersusOver(players);
+      const inputs = inputRef.current?.pollPlayers() ?? [NO_INPUT, NO_INPUT];
+      advanceClock(clockRef.current, frameTime, () => {
+        if (isVersusOver(players)) return;
+        players.forEach((state, i) => {
+          if (state.finished || state.failure) return;
+          step(state, inputs[i]);
+          state.events.forEach(event => audioRef.current?.play(event));
+        });
+      });
+
+      if (isVersusOver(players) && !wasOver) {
+        setVersus(versusResult(players));
+        transition('FINISHED');
+      }
 
-    game.position += game.speed * dt;
-    if (game.position >= game.trackLength) {
-      setGameState('FINISHED');
-      const finalTime = (Date.now() - game.startTime) / 1000;
-      if (!bestTime || finalTime < bestTime) setBestTime(finalTime);
+      // The engine sound follows player one
+      audioRef.current?.updateEngine({
+        running: !isVersusOver(players),
+        speed: game.speed / MAX_SPEED,
+        throttle: inputs[0].throttle,
+        offRoad: Math.abs(game.playerX) > 1,
+      });
+      setPlayerHuds(players.map(toPlayerHud));
+      setTime(Math.round(game.time * 10) / 10);
+      return;
     }
 
-    // Collision Detection
-    const currentSegment = game.segments[Math.floor(game.position / SEGMENT_LENGTH) % game.segments.length];
-    currentSegment.sprites.forEach(sprite => {
-      if (sprite.type === 'obstacle' || sprite.type === 'boost') {
-        const spriteW = sprite.w / ROAD_WIDTH;
-        if (Math.abs(game.playerX - sprite.x) < spriteW) {
-          if (sprite.type === 'obstacle') {
-            game.speed *= 0.5;
-            // Remove sprite so we don't hit it again immediately
-            currentSegment.sprites = currentSegment.sprites.filter(s => s !== sprite);
-          } else if (sprite.type === 'boost') {
-            game.boostTimer = 3; // 3 seconds boost
-            currentSegment.sprites = currentSegment.sprites.filter(s => s !== sprite);
-          }
+    // Test drives and races on tuned values don't set records, ghosts or profile stats
+    const offRecord = testDrive !== null || tunedRef.current;
+    const wasFinished = game.finished;
+    const hadFailed = game.failure !== null;
+    const input = inputRef.current?.poll() ?? NO_INPUT;
+    let best = bestLap;
+    advanceClock(clockRef.current, frameTime, () => {
+      if (game.finished || game.failure) return;
+      step(game, recorderRef.current.record(input));
+      ghostRef.current?.advance();
+      if (runRef.current) tallyEvents(runRef.current, game.events);
+
+      // Splits are compared against the best lap as it stood when this one started
+      for (const event of game.events) {
+        audioRef.current?.play(event);
+        if (event === 'checkpoint') {
+          const i = game.splits.length - 1;
+          const reference = bestLap?.splits[i];
+          setSplitFlash({ label: `检查点 ${i + 1}`, time: game.splits[i], delta: reference === undefined ? null : game.splits[i] - reference, shownAt: game.time });
+        } else if (event === 'lap' || event === 'finish') {
+          const record = game.lapRecords[game.lapRecords.length - 1];
+          setSplitFlash({ label: `第 ${game.lapRecords.length} 圈`, time: record.time, delta: bestLap ? record.time - bestLap.time : null, shownAt: game.time });
+          setLastLap(record.time);
+          if (!best || record.time < best.time) best = record;
         }
       }
     });
 
-    if (game.boostTimer > 0) game.boostTimer -= dt;
-
-    // Update UI state
-    setSpeed(Math.round(game.speed / 10));
-    setDistance(Math.round((game.position / game.trackLength) * 100));
-    setTime(Math.round((Date.now() - game.startTime) / 100) / 10);
-  }, [gameState, bestTime]);
+    if (best !== bestLap && !offRecord) {
+      saveJSON(`bestLap:${trackKey}`, best);
+      setBestLap(best);
+    }
 
-  const render = useCallback(() => {
-    const canvas = canvasRef.current;
-    if (!canvas) return;
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
+    if (runRef.current) {
+      updateRun(runRef.current, game);
+      showAchievements(profileRef.current?.check(runRef.current) ?? []);
+    }
 
-    const { width, height } = canvas;
-    const game = gameRef.current;
+    if (game.finished && !wasFinished) {
+      transition('FINISHED');
+      endRun();
+      if (mode === 'online') {
+        onlineRef.current?.finish(game.time);
+      } else if (offRecord) {
+        setLastReplay(null);
+        setNewVehicles([]);
+      } else {
+        const replay = recorderRef.current.finish(trackKey, mode, game.vehicle, game.settings, game.time);
+        setStandings(getStandings(game, '你'));
+        setLastReplay(replay);
+        // Unlocks go by single-lap bests, which are the ones stored under the bare track id
+        setNewVehicles(VEHICLES.filter(entry =>
+          entry.unlock?.trackId === recordKey && replay.time < entry.unlock.time && !(bestTime !== null && bestTime < entry.unlock.time)));
+        if (!bestTime || replay.time < bestTime) {
+          saveJSON(`ghost:${recordKey}`, replay);
+          setPersonalBest(replay);
+        }
+      }
+    }
 
-    ctx.clearRect(0, 0, width, height);
-
-    // Draw Sky
-    const skyGradient = ctx.createLinearGradient(0, 0, 0, height / 2);
-    skyGradient.addColorStop(0, '#60A5FA');
-    skyGradient.addColorStop(1, '#BFDBFE');
-    ctx.fillStyle = skyGradient;
-    ctx.fillRect(0, 0, width, height / 2);
-
-    // Draw Ground
-    ctx.fillStyle = '#10B981';
-    ctx.fillRect(0, height / 2, width, height / 2);
-
-    const baseSegment = game.segments[Math.floor(game.position / SEGMENT_LENGTH) % game.segments.length];
-    const basePercent = (game.position % SEGMENT_LENGTH) / SEGMENT_LENGTH;
-    
-    let x = 0;
-    let dx = -(baseSegment.curve * basePercent);
-
-    // Projection
-    for (let n = 0; n < DRAW_DISTANCE; n++) {
-      const segment = game.segments[(baseSegment.index + n) % game.segments.length];
-      const looped = segment.index < baseSegment.index;
-      
-      project(segment.p1, game.playerX * ROAD_WIDTH - x, CAMERA_HEIGHT, game.position - (looped ? game.trackLength : 0), width, height, ROAD_WIDTH);
-      project(segment.p2, game.playerX * ROAD_WIDTH - x - dx, CAMERA_HEIGHT, game.position - (looped ? game.trackLength : 0), width, height, ROAD_WIDTH);
-
-      x += dx;
-      dx += segment.curve;
-
-      if (segment.p1.z <= game.position || segment.p2.screenY >= segment.p1.screenY) continue;
-
-      // Draw Grass
-      ctx.fillStyle = segment.color.grass;
-      ctx.fillRect(0, segment.p2.screenY, width, segment.p1.screenY - segment.p2.screenY);
-
-      // Draw Road
-      drawPolygon(ctx, segment.p1.screenX, segment.p1.screenY, segment.p1.screenW, segment.p2.screenX, segment.p2.screenY, segment.p2.screenW, segment.color.road);
-
-      // Draw Rumble
-      const rumbleW1 = segment.p1.screenW * 0.1;
-      const rumbleW2 = segment.p2.screenW * 0.1;
-      drawPolygon(ctx, segment.p1.screenX - segment.p1.screenW - rumbleW1, segment.p1.screenY, rumbleW1, segment.p2.screenX - segment.p2.screenW - rumbleW2, segment.p2.screenY, rumbleW2, segment.color.rumble);
-      drawPolygon(ctx, segment.p1.screenX + segment.p1.screenW + rumbleW1, segment.p1.screenY, rumbleW1, segment.p2.screenX + segment.p2.screenW + rumbleW2, segment.p2.screenY, rumbleW2, segment.color.rumble);
-
-      // Draw Lanes
-      if (segment.color.lane) {
-        const laneW1 = segment.p1.screenW * 0.02;
-        const laneW2 = segment.p2.screenW * 0.02;
-        drawPolygon(ctx, segment.p1.screenX, segment.p1.screenY, laneW1, segment.p2.screenX, segment.p2.screenY, laneW2, segment.color.lane);
+    if (game.failure && !hadFailed) {
+      setFailure(game.failure);
+      transition('GAMEOVER');
+      endRun();
+      if (mode === 'online') onlineRef.current?.retire();
+      if (game.endless && endlessScore(game) > bestScore) {
+        saveJSON('endlessBest', endlessScore(game));
+        setBestScore(endlessScore(game));
       }
     }
 
-    // Draw Sprites (Back to Front)
-    for (let n = DRAW_DISTANCE - 1; n > 0; n--) {
-      const segment = game.segments[(baseSegment.index + n) % game.segments.length];
-      segment.sprites.forEach(sprite => {
-        drawSprite(ctx, width, height, ROAD_WIDTH, segment, sprite, segment.p1.screenX);
-      });
+    audioRef.current?.updateEngine({
+      running: !game.finished && !game.failure,
+      speed: game.speed / MAX_SPEED,
+      throttle: input.throttle,
+      offRoad: Math.abs(game.playerX) > 1,
+    });
+
+    // Update UI state
+    const progress = raceProgress(game.lap, game.position, game.trackLength) / (game.trackLength * game.settings.laps);
+    setSpeed(Math.round(game.speed / 10));
+    setDistance(Math.min(100, Math.round(progress * 100)));
+    setTime(Math.round(game.time * 10) / 10);
+    if (mode === 'online') {
+      const cars = onlineRef.current?.remoteCars(game.trackLength) ?? [];
+      setPlace(room && roomSelf ? onlinePlace(room, roomSelf, game.lap * game.trackLength + game.position, cars) : 1);
+    } else {
+      setPlace(racePosition(game));
+    }
+    setLap(Math.min(game.lap + 1, game.settings.laps));
+    setCheckpointsPassed(game.splits.length);
+    setTimeLeft(Math.ceil(game.timeRemaining * 10) / 10);
+    setDamage(Math.round(game.damage));
+    if (game.endless) {
+      setScore(endlessScore(game));
+      setLevel(endlessDifficulty(endlessDistance(game) / SEGMENT_LENGTH).level);
     }
+    setDriftCharge(game.drift.direction ? Math.min(1, game.drift.charge / game.vehicle.handling.driftCharge) : null);
+    setSplitFlash(flash => (flash && game.time - flash.shownAt > SPLIT_FLASH_TIME ? null : flash));
+    if (!game.endless) {
+      const ghost = ghostRef.current?.state;
+      setMinimapCars([
+        ...game.cars.filter(car => car.finishTime === null).map(car => ({ z: car.z, color: car.colors.body })),
+        ...(ghost && !ghost.finished ? [{ z: ghost.position, color: GHOST_COLORS.body }] : []),
+        ...(onlineRef.current?.remoteCars(game.trackLength) ?? []).map(car => ({ z: car.position, color: ONLINE_COLORS[car.slot].body })),
+        { z: game.position, color: mode === 'online' ? ONLINE_COLORS[onlineSlot].body : game.vehicle.colors.body, player: true },
+      ]);
+    }
+  }, [gameState, transition, bestTime, bestLap, bestScore, trackKey, recordKey, mode, room, roomSelf, testDrive]);
 
-    // Draw Player Car (Static in center, but with slight tilt)
-    const carW = 120;
-    const carH = 60;
-    const carX = width / 2 - carW / 2;
-    const carY = height - 120;
-    
-    // Simple Cartoon Car
-    ctx.save();
-    // Tilt based on curve/steering
-    const tilt = (game.speed > 0 ? (gameRef.current.playerX * 0.1) : 0);
-    ctx.translate(width / 2, carY + carH / 2);
-    ctx.rotate(tilt);
-    ctx.translate(-width / 2, -(carY + carH / 2));
-
-    // Body
-    ctx.fillStyle = game.boostTimer > 0 ? '#F59E0B' : '#EF4444';
-    ctx.beginPath();
-    ctx.roundRect(carX, carY, carW, carH, 10);
-    ctx.fill();
-    ctx.strokeStyle = '#991B1B';
-    ctx.lineWidth = 3;
-    ctx.stroke();
-
-    // Roof
-    ctx.fillStyle = '#FEE2E2';
-    ctx.beginPath();
-    ctx.roundRect(carX + 20, carY - 20, carW - 40, 30, 5);
-    ctx.fill();
-    ctx.stroke();
-
-    // Wheels
-    ctx.fillStyle = '#1F2937';
-    ctx.fillRect(carX - 5, carY + 10, 10, 20);
-    ctx.fillRect(carX + carW - 5, carY + 10, 10, 20);
-    ctx.fillRect(carX - 5, carY + carH - 30, 10, 20);
-    ctx.fillRect(carX + carW - 5, carY + carH - 30, 10, 20);
-
-    ctx.restore();
+  const render = useCallback((frameTime: number) => {
+    const canvas = canvasRef.current;
+    const renderer = rendererRef.current;
+    if (!canvas || !renderer) return;
 
-  }, []);
+    const game = gameRef.current;
+    const view = atmosphereRef.current;
+    const { atmosphere, particles } = view;
+    if (atmosphere.particles) updateParticles(particles, atmosphere.particles, frameTime, game.speed / MAX_SPEED, game.steer);
+
+    renderer.begin();
+    const stats = { segments: 0, sprites: 0 };
+    const count = (drawn: SceneStats) => {
+      stats.segments += drawn.segments;
+      stats.sprites += drawn.sprites;
+    };
+    const rival = rivalRef.current;
+    if (rival) {
+      // Each player sees the other as a car in their colors
+      const players = [game, rival];
+      const cars: PlayerCar[] = [game.vehicle, { colors: PLAYER_COLORS[1], sprite: null }];
+      splitViewports(canvas.width, canvas.height, activeTuning.CAMERA_DEPTH).forEach((viewport, i) => count(drawScene(renderer, viewport, {
+        game: players[i],
+        rivals: [{ state: players[1 - i], colors: PLAYER_COLORS[1 - i], alpha: 1 }],
+        car: cars[i],
+        view,
+        assets: assetsRef.current,
+        drawDistance: activeTuning.DRAW_DISTANCE,
+      })));
+    } else {
+      const ghost = ghostRef.current?.state;
+      // Remote cars come from the last race's room; there are none outside online races
+      const remotes = (onlineRef.current?.remoteCars(game.trackLength) ?? []).map((car): Rival => ({
+        state: { position: car.position, playerX: car.playerX, finished: false, failure: null },
+        colors: ONLINE_COLORS[car.slot],
+        alpha: 1,
+      }));
+      const viewport = createViewport(canvas.width, canvas.height, 0, 0, activeTuning.CAMERA_DEPTH);
+      const scene = {
+        game,
+        rivals: [...(ghost ? [{ state: ghost, colors: GHOST_COLORS, alpha: 0.45 }] : []), ...remotes],
+        // Online everyone drives in their room slot's colors, as the others see them
+        car: mode === 'online' ? { colors: ONLINE_COLORS[onlineSlot], sprite: null } : game.vehicle,
+        view,
+        assets: assetsRef.current,
+        drawDistance: activeTuning.DRAW_DISTANCE,
+      };
+      count(drawScene(renderer, viewport, scene));
+      if (rearView && gameState !== 'START') count(drawRearView(renderer, mirrorViewport(viewport), scene));
+    }
+    renderer.end();
+    return stats;
+  }, [mode, onlineSlot, rearView, gameState, activeTuning]);
+
+  // Every frame goes into the profiler; the overlay only re-renders every DEBUG_REFRESH ms
+  const recordFrame = (time: number, sample: FrameSample) => {
+    profilerRef.current.record(sample);
+    if (time - lastDebugRefresh.current < DEBUG_REFRESH) return;
+    lastDebugRefresh.current = time;
+    setDebugSamples(profilerRef.current.samples());
+    const game = gameRef.current;
+    const segment = game.segments.length ? findSegment(game.segments, game.position + PLAYER_Z) : null;
+    setDebugCar(segment ? { segment: segment.index, curve: segment.curve, playerX: game.playerX, speed: game.speed } : null);
+  };
 
   const loop = useCallback((time: number) => {
     if (lastTime.current !== undefined) {
-      const dt = Math.min(1, (time - lastTime.current) / 1000);
-      update(dt);
-      render();
+      const frameTime = (time - lastTime.current) / 1000;
+      const start = performance.now();
+      update(frameTime);
+      const updated = performance.now();
+      const stats = render(frameTime);
+      if (showDebug && stats) recordFrame(time, { frameTime: frameTime * 1000, update: updated - start, render: performance.now() - updated, ...stats });
     }
     lastTime.current = time;
     requestRef.current = requestAnimationFrame(loop);
-  }, [update, render]);
+  }, [update, render, showDebug]);
 
   const lastTime = useRef<number>(undefined);
 
   useEffect(() => {
-    resetTrack();
+    if (!isRacing(gameState)) resetTrack();
+  }, [resetTrack]);
+
+  useEffect(() => {
     requestRef.current = requestAnimationFrame(loop);
     return () => {
       if (requestRef.current) cancelAnimationFrame(requestRef.current);
     };
-  }, [loop, resetTrack]);
+  }, [loop]);
 
   // --- Handlers ---
 
+  // Restarting from the pause menu ends the abandoned run first
   const startGame = () => {
+    endRun();
     resetTrack();
-    gameRef.current.startTime = Date.now();
-    setGameState('PLAYING');
+    // The ghost keeps the physics it was recorded with
+    applyTuning(gameRef.current, activeTuning);
+    if (rivalRef.current) applyTuning(rivalRef.current, activeTuning);
+    tunedRef.current = isTuned(activeTuning);
+    runRef.current = mode === 'versus' || testDrive || tunedRef.current ? null : createRun(mode, mode === 'endless' || mode === 'online' ? null : recordKey);
+    transition('COUNTDOWN');
   };
 
-  const handleSteer = (dir: number) => {
-    if (gameState !== 'PLAYING') return;
-    const game = gameRef.current;
-    const steerAmount = 0.05 * (game.speed / MAX_SPEED);
-    game.playerX = Math.max(-2, Math.min(2, game.playerX + dir * steerAmount));
+  // Everyone in the room starts together when the host says so
+  useEffect(() => {
+    if (onlineStarts) startGame();
+  }, [onlineStarts]);
+
+  useEffect(() => {
+    if (testDrive) startGame();
+  }, [testDrive]);
+
+  // Leaves an online race for the room's lobby; the others race on
+  const quitRace = () => {
+    if (mode === 'online') onlineRef.current?.retire();
+    endRun();
+    transition('START');
+  };
+
+  const importGhost = (replay: Replay) => {
+    if (replay.trackId.startsWith(SEED_TRACK_PREFIX)) {
+      setTrackId(RANDOM_TRACK_ID);
+      setSeed(replay.trackId.slice(SEED_TRACK_PREFIX.length));
+    } else {
+      setTrackId(replay.trackId);
+    }
+    setSettings(replaySettings(replay));
+    setImportedGhost(replay);
+  };
+
+  const changeTrack = (id: string) => {
+    setTrackId(id);
+    setSettings(current => ({ ...current, laps: TRACKS.find(entry => entry.id === id)?.track?.definition.laps ?? DEFAULT_RACE_SETTINGS.laps }));
   };
 
   // --- UI Components ---
@@ -412,14 +749,23 @@ export default function App() {
     <div className="relative w-full h-screen bg-slate-900 overflow-hidden font-sans select-none touch-none">
       {/* Game Canvas */}
       <canvas
+        key={rendererChoice}
         ref={canvasRef}
-        width={800}
-        height={600}
-        className="w-full h-full object-cover"
+        className="block w-full h-full"
       />
 
       {/* HUD */}
-      {gameState === 'PLAYING' && (
+      {isRacing(gameState) && mode === 'versus' && (
+        <VersusHud
+          players={playerHuds}
+          layout={layout}
+          laps={settings.laps}
+          controls={isPausable(gameState)}
+          onTouch={(pointerId, zone, player) => inputRef.current?.pressTouch(pointerId, zone, player)}
+          onPause={() => transition('PAUSED')}
+        />
+      )}
+      {isRacing(gameState) && mode !== 'versus' && (
         <div className="absolute top-0 left-0 w-full p-6 flex justify-between items-start pointer-events-none">
           <div className="flex flex-col gap-2">
             <div className="bg-black/40 backdrop-blur-md border border-white/10 rounded-2xl p-4 flex items-center gap-4 text-white shadow-xl">
@@ -440,56 +786,191 @@ export default function App() {
                 <p className="text-2xl font-bold tabular-nums">{time.toFixed(1)}s</p>
               </div>
             </div>
+            {mode !== 'endless' && settings.timeLimit && (
+              <div className="bg-black/40 backdrop-blur-md border border-white/10 rounded-2xl p-4 flex items-center gap-4 text-white shadow-xl">
+                <div className="p-2 bg-red-500/20 rounded-lg">
+                  <Hourglass className="w-6 h-6 text-red-400" />
+                </div>
+                <div>
+                  <p className="text-[10px] uppercase tracking-wider opacity-60">Time Left</p>
+                  <p className={`text-2xl font-bold tabular-nums ${timeLeft < 5 ? 'text-red-400' : ''}`}>{timeLeft.toFixed(1)}s</p>
+                </div>
+              </div>
+            )}
+            <div className="bg-black/40 backdrop-blur-md border border-white/10 rounded-2xl p-4 text-white shadow-xl">
+              <div className="flex items-center justify-between gap-3 mb-1">
+                <p className="text-[10px] uppercase tracking-wider opacity-60">Damage</p>
+                <Wrench className={`w-4 h-4 ${damage > MAX_DAMAGE * 0.7 ? 'text-red-400' : 'text-slate-400'}`} />
+              </div>
+              <div className="w-full h-2 bg-white/10 rounded-full overflow-hidden">
+                <div
+                  className={`h-full transition-all ${damage > MAX_DAMAGE * 0.7 ? 'bg-red-500' : (damage > MAX_DAMAGE * 0.4 ? 'bg-amber-400' : 'bg-emerald-500')}`}
+                  style={{ width: `${(damage / MAX_DAMAGE) * 100}%` }}
+                />
+              </div>
+            </div>
           </div>
 
-          <div className="bg-black/40 backdrop-blur-md border border-white/10 rounded-2xl p-4 text-white shadow-xl min-w-[120px]">
-            <p className="text-[10px] uppercase tracking-wider opacity-60 mb-1">Progress</p>
-            <div className="w-full h-2 bg-white/10 rounded-full overflow-hidden">
-              <motion.div 
-                className="h-full bg-emerald-500"
-                initial={{ width: 0 }}
-                animate={{ width: `${distance}%` }}
-              />
-            </div>
-            <p className="text-right text-xs mt-1 opacity-80">{distance}%</p>
+          <div className="flex flex-col gap-2 items-end">
+            <button
+              onClick={() => transition('PAUSED')}
+              className="pointer-events-auto p-3 bg-black/40 backdrop-blur-md border border-white/10 rounded-2xl text-white shadow-xl hover:bg-black/60"
+              aria-label="暂停"
+            >
+              <Pause className="w-5 h-5" />
+            </button>
+            {mode === 'endless' ? (
+              <div className="bg-black/40 backdrop-blur-md border border-white/10 rounded-2xl p-4 text-white shadow-xl min-w-[120px] flex items-center gap-3">
+                <InfinityIcon className="w-5 h-5 text-emerald-400" />
+                <div>
+                  <p className="text-[10px] uppercase tracking-wider opacity-60">Score</p>
+                  <p className="text-2xl font-bold tabular-nums">{score}</p>
+                  <p className="text-xs opacity-60">等级 {level}</p>
+                </div>
+              </div>
+            ) : (
+              <div className="bg-black/40 backdrop-blur-md border border-white/10 rounded-2xl p-4 text-white shadow-xl min-w-[120px]">
+                <p className="text-[10px] uppercase tracking-wider opacity-60 mb-1">Progress</p>
+                <div className="w-full h-2 bg-white/10 rounded-full overflow-hidden">
+                  <motion.div 
+                    className="h-full bg-emerald-500"
+                    initial={{ width: 0 }}
+                    animate={{ width: `${distance}%` }}
+                  />
+                </div>
+                <p className="text-right text-xs mt-1 opacity-80">{distance}%</p>
+              </div>
+            )}
+            {mode !== 'endless' && settings.laps > 1 && (
+              <div className="bg-black/40 backdrop-blur-md border border-white/10 rounded-2xl p-4 text-white shadow-xl min-w-[120px]">
+                <div className="flex items-center gap-3">
+                  <Repeat className="w-5 h-5 text-emerald-400" />
+                  <div>
+                    <p className="text-[10px] uppercase tracking-wider opacity-60">Lap</p>
+                    <p className="text-2xl font-bold tabular-nums">{lap}<span className="text-xs font-normal opacity-60"> / {settings.laps}</span></p>
+                  </div>
+                </div>
+                <div className="mt-2 text-xs tabular-nums space-y-0.5">
+                  <p className="flex justify-between gap-3"><span className="opacity-60">上一圈</span>{lastLap !== null ? `${lastLap.toFixed(2)}s` : '--'}</p>
+                  <p className="flex justify-between gap-3"><span className="opacity-60">最快圈</span>{bestLap ? `${bestLap.time.toFixed(2)}s` : '--'}</p>
+                </div>
+              </div>
+            )}
+            {(mode === 'race' || (mode === 'online' && room)) && (
+              <div className="bg-black/40 backdrop-blur-md border border-white/10 rounded-2xl p-4 text-white shadow-xl min-w-[120px] flex items-center gap-3">
+                <Flag className="w-5 h-5 text-amber-400" />
+                <div>
+                  <p className="text-[10px] uppercase tracking-wider opacity-60">Position</p>
+                  <p className="text-2xl font-bold tabular-nums">{place}<span className="text-xs font-normal opacity-60"> / {mode === 'race' ? OPPONENT_COUNT + 1 : room?.players.length}</span></p>
+                </div>
+              </div>
+            )}
+            {mode !== 'endless' && outline && <Minimap outline={outline} cars={minimapCars} />}
           </div>
         </div>
       )}
 
+      {/* Drift Charge */}
+      {isRacing(gameState) && driftCharge !== null && (
+        <div className="absolute bottom-32 left-1/2 -translate-x-1/2 w-48 pointer-events-none text-center text-white">
+          <p className={`text-xs font-black uppercase tracking-widest mb-1 ${driftCharge >= 1 ? 'text-amber-400' : 'opacity-70'}`}>
+            {driftCharge >= 1 ? '松开加速!' : '漂移中'}
+          </p>
+          <div className="h-2 bg-black/40 border border-white/10 rounded-full overflow-hidden">
+            <div className={`h-full ${driftCharge >= 1 ? 'bg-amber-400' : 'bg-sky-400'}`} style={{ width: `${driftCharge * 100}%` }} />
+          </div>
+        </div>
+      )}
+
+      {/* Split Times */}
+      <AnimatePresence>
+        {isRacing(gameState) && splitFlash && (
+          <motion.div
+            key={splitFlash.shownAt}
+            initial={{ opacity: 0, y: -10 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0 }}
+            className={`absolute ${rearView ? 'top-1/4' : 'top-6'} left-1/2 -translate-x-1/2 bg-black/50 backdrop-blur-md border border-white/10 rounded-2xl px-5 py-3 text-white text-center pointer-events-none`}
+          >
+            <p className="text-[10px] uppercase tracking-wider opacity-60">{splitFlash.label}</p>
+            <p className="text-xl font-bold tabular-nums">
+              {splitFlash.time.toFixed(2)}s
+              {splitFlash.delta !== null && (
+                <span className={`ml-2 text-base ${splitFlash.delta < 0 ? 'text-emerald-400' : 'text-red-400'}`}>{formatDelta(splitFlash.delta)}</span>
+              )}
+            </p>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      <AchievementToasts achievements={toasts} />
+
+      {showDebug && (
+        <DebugOverlay
+          samples={debugSamples}
+          car={debugCar}
+          tuning={tuning}
+          onTuningChange={mode === 'online' ? null : setTuning}
+          onClose={() => setShowDebug(false)}
+        />
+      )}
+
       {/* Controls Overlay (Invisible touch areas) */}
-      {gameState === 'PLAYING' && (
+      {isPausable(gameState) && mode !== 'versus' && (
         <div className="absolute inset-0 flex">
           <div 
             className="flex-1 active:bg-white/5 transition-colors flex items-center justify-start p-8"
-            onPointerDown={() => {
-              const interval = setInterval(() => handleSteer(-1), 16);
-              const cleanup = () => {
-                clearInterval(interval);
-                window.removeEventListener('pointerup', cleanup);
-              };
-              window.addEventListener('pointerup', cleanup);
-            }}
+            onPointerDown={e => inputRef.current?.pressTouch(e.pointerId, 'left')}
           >
             <ChevronLeft className="w-12 h-12 text-white/20" />
           </div>
           <div 
             className="flex-1 active:bg-white/5 transition-colors flex items-center justify-end p-8"
-            onPointerDown={() => {
-              const interval = setInterval(() => handleSteer(1), 16);
-              const cleanup = () => {
-                clearInterval(interval);
-                window.removeEventListener('pointerup', cleanup);
-              };
-              window.addEventListener('pointerup', cleanup);
-            }}
+            onPointerDown={e => inputRef.current?.pressTouch(e.pointerId, 'right')}
           >
             <ChevronRight className="w-12 h-12 text-white/20" />
           </div>
+          <div
+            className="absolute bottom-6 left-1/2 -translate-x-1/2 w-20 h-20 rounded-full bg-black/30 border border-white/10 active:bg-red-500/40 flex items-center justify-center"
+            onPointerDown={e => {
+              e.stopPropagation();
+              inputRef.current?.pressTouch(e.pointerId, 'brake');
+            }}
+          >
+            <span className="text-white/60 text-sm font-bold">刹车</span>
+          </div>
+          <div
+            className="absolute bottom-6 right-6 w-20 h-20 rounded-full bg-black/30 border border-white/10 active:bg-sky-500/40 flex items-center justify-center"
+            onPointerDown={e => {
+              e.stopPropagation();
+              inputRef.current?.pressTouch(e.pointerId, 'drift');
+            }}
+          >
+            <span className="text-white/60 text-sm font-bold">漂移</span>
+          </div>
         </div>
       )}
 
       {/* Screens */}
       <AnimatePresence>
+        {!assetsReady && (
+          <motion.div
+            key="loading"
+            initial={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="absolute inset-0 z-30 bg-slate-900 flex flex-col items-center justify-center gap-4 text-white"
+          >
+            <p className="text-sm font-bold tracking-widest uppercase opacity-60">加载中</p>
+            <div className="w-48 h-2 bg-white/10 rounded-full overflow-hidden">
+              <motion.div
+                className="h-full bg-emerald-500"
+                animate={{ width: `${(assetProgress.loaded / assetProgress.total) * 100}%` }}
+              />
+            </div>
+            <p className="text-xs font-mono opacity-40">{assetProgress.loaded} / {assetProgress.total}</p>
+          </motion.div>
+        )}
+
         {gameState === 'START' && (
           <motion.div 
             initial={{ opacity: 0 }}
@@ -501,31 +982,124 @@ export default function App() {
               initial={{ y: 20, opacity: 0 }}
               animate={{ y: 0, opacity: 1 }}
               transition={{ delay: 0.2 }}
-              className="mb-12"
+              className="mb-10"
             >
               <h1 className="text-6xl font-black text-white mb-4 tracking-tighter uppercase italic">
                 极简赛车 <span className="text-emerald-500">3D</span>
               </h1>
               <p className="text-slate-400 max-w-xs mx-auto">
-                左右滑动控制赛车，躲避障碍，冲向终点！
+                点击两侧、方向键/WASD 或手柄控制赛车，躲避障碍，冲向终点！
               </p>
             </motion.div>
 
-            <motion.button
-              whileHover={{ scale: 1.05 }}
-              whileTap={{ scale: 0.95 }}
-              onClick={startGame}
-              className="group relative flex items-center gap-4 bg-emerald-500 hover:bg-emerald-400 text-slate-900 px-12 py-6 rounded-full font-black text-2xl shadow-[0_0_40px_rgba(16,185,129,0.3)] transition-all"
-            >
-              <Play className="w-8 h-8 fill-current" />
-              开始游戏
-            </motion.button>
+            {mode !== 'endless' && mode !== 'online' && (
+              <TrackPicker
+                trackId={trackId}
+                seed={seed}
+                onTrackChange={changeTrack}
+                onSeedChange={setSeed}
+              />
+            )}
+
+            <ModePicker mode={mode} onChange={setMode} />
+
+            {mode !== 'versus' && (
+              <button
+                onClick={() => setShowGarage(true)}
+                className="mb-4 flex items-center gap-3 bg-white/5 border border-white/10 rounded-2xl px-4 py-2 text-white text-sm font-bold hover:bg-white/10"
+              >
+                <CarFront className="w-4 h-4 text-emerald-400" />
+                车库
+                <span className="flex items-center gap-2 text-slate-400">
+                  <span className="w-3 h-3 rounded-full" style={{ backgroundColor: vehicle.colors.body }} />
+                  {vehicle.name}
+                </span>
+              </button>
+            )}
+
+            {mode !== 'endless' && !(mode === 'online' && room) && <LapPicker settings={settings} onChange={setSettings} />}
+
+            <AtmospherePicker choice={atmosphereChoice} onChange={setAtmosphereChoice} />
+
+            {mode === 'online' ? (
+              <OnlineLobby
+                status={onlineStatus}
+                room={room}
+                self={roomSelf}
+                error={onlineError}
+                onCreate={name => onlineRef.current?.create(name, seed, settings.laps)}
+                onJoin={(name, code) => onlineRef.current?.join(name, code)}
+                onLeave={() => onlineRef.current?.leave()}
+                onStart={() => onlineRef.current?.start()}
+              />
+            ) : (
+              <motion.button
+                whileHover={{ scale: 1.05 }}
+                whileTap={{ scale: 0.95 }}
+                onClick={startGame}
+                disabled={(!track && mode !== 'endless') || !assetsReady}
+                className="group relative flex items-center gap-4 bg-emerald-500 hover:bg-emerald-400 text-slate-900 px-12 py-6 rounded-full font-black text-2xl shadow-[0_0_40px_rgba(16,185,129,0.3)] transition-all"
+              >
+                <Play className="w-8 h-8 fill-current" />
+                开始游戏
+              </motion.button>
+            )}
 
-            {bestTime && (
-              <p className="mt-8 text-slate-500 font-mono text-sm">
-                最佳纪录: {bestTime.toFixed(2)}s
+            {mode === 'online' ? (
+              !room && (
+                <p className="mt-4 text-slate-500 text-sm">
+                  创建房间后把房间码告诉朋友，赛道使用当前的随机种子 #{seed}
+                </p>
+              )
+            ) : mode === 'versus' ? (
+              <p className="mt-8 text-slate-500 text-sm">
+                玩家 1：WASD + 左 Shift · 玩家 2：方向键 + 右 Shift · 手柄按连接顺序分配
               </p>
+            ) : mode === 'endless' ? (
+              bestScore > 0 && (
+                <p className="mt-8 text-slate-500 font-mono text-sm">
+                  最高得分: {bestScore}
+                </p>
+              )
+            ) : (
+              <>
+                {bestTime && (
+                  <p className="mt-8 text-slate-500 font-mono text-sm">
+                    最佳纪录: {bestTime.toFixed(2)}s
+                  </p>
+                )}
+
+                <GhostControls
+                  ghost={ghostReplay}
+                  imported={ghostReplay === importedGhost}
+                  onImport={importGhost}
+                />
+              </>
             )}
+
+            <div className="mt-4 flex gap-6">
+              <button
+                onClick={openTrackEditor}
+                className="flex items-center gap-2 text-slate-400 text-sm font-bold hover:text-white"
+              >
+                <PencilRuler className="w-4 h-4" />
+                编辑器
+              </button>
+              <button
+                onClick={() => setShowProfile(true)}
+                className="flex items-center gap-2 text-slate-400 text-sm font-bold hover:text-white"
+              >
+                <User className="w-4 h-4" />
+                档案
+              </button>
+              <button
+                onClick={() => setShowControls(true)}
+                className="flex items-center gap-2 text-slate-400 text-sm font-bold hover:text-white"
+              >
+                <Gamepad2 className="w-4 h-4" />
+                设置
+              </button>
+            </div>
           </motion.div>
         )}
 
@@ -542,42 +1116,285 @@ export default function App() {
               className="bg-white p-12 rounded-[3rem] shadow-2xl max-w-sm w-full"
             >
               <Trophy className="w-24 h-24 mx-auto mb-6 text-yellow-500" />
-              <h2 className="text-4xl font-black mb-2 uppercase italic">挑战成功!</h2>
-              <div className="my-8 space-y-4">
-                <div className="flex justify-between items-center border-b border-slate-100 pb-2">
-                  <span className="text-slate-500 uppercase text-xs font-bold tracking-widest">本次用时</span>
-                  <span className="text-2xl font-black font-mono">{time.toFixed(2)}s</span>
-                </div>
-                {bestTime && (
-                  <div className="flex justify-between items-center">
-                    <span className="text-slate-500 uppercase text-xs font-bold tracking-widest">最佳纪录</span>
-                    <span className="text-xl font-bold font-mono text-emerald-600">{bestTime.toFixed(2)}s</span>
+              {mode === 'versus' && versus ? (
+                <>
+                  <h2 className="text-4xl font-black mb-2 uppercase italic">
+                    {versus.winner === null ? '平局!' : `${PLAYER_NAMES[versus.winner]} 获胜!`}
+                  </h2>
+                  <p className="text-slate-500 text-sm font-bold">{track?.definition.name}</p>
+                  <div className="my-8 space-y-4">
+                    {versus.times.map((finishTime, i) => (
+                      <div key={i} className="flex justify-between items-center border-b border-slate-100 pb-2">
+                        <span className={`uppercase text-xs font-bold tracking-widest ${i === versus.winner ? 'text-emerald-600' : 'text-slate-500'}`}>{PLAYER_NAMES[i]}</span>
+                        <span className="text-xl font-black font-mono">{finishTime !== null ? `${finishTime.toFixed(2)}s` : '未完成'}</span>
+                      </div>
+                    ))}
+                  </div>
+                </>
+              ) : mode === 'online' && room ? (
+                <>
+                  <h2 className="text-4xl font-black mb-2 uppercase italic">第 {place} 名!</h2>
+                  <p className="text-slate-500 text-sm font-bold">{track?.definition.name}</p>
+                  <p className="text-slate-400 text-xs font-mono mt-1">房间 {room.code}</p>
+                  <div className="my-8 flex justify-between items-center border-b border-slate-100 pb-2">
+                    <span className="text-slate-500 uppercase text-xs font-bold tracking-widest">本次用时</span>
+                    <span className="text-2xl font-black font-mono">{time.toFixed(2)}s</span>
+                  </div>
+                  <OnlineStandings room={room} self={roomSelf} />
+                </>
+              ) : (
+                <>
+                  <h2 className="text-4xl font-black mb-2 uppercase italic">
+                    {mode === 'race' ? `第 ${standings.findIndex(entry => entry.isPlayer) + 1} 名!` : '挑战成功!'}
+                  </h2>
+                  <p className="text-slate-500 text-sm font-bold">{track?.definition.name}</p>
+                  {trackId === RANDOM_TRACK_ID && !testDrive && (
+                    <p className="text-slate-400 text-xs font-mono mt-1">SEED {seed}</p>
+                  )}
+                  <div className="my-8 space-y-4">
+                    <div className="flex justify-between items-center border-b border-slate-100 pb-2">
+                      <span className="text-slate-500 uppercase text-xs font-bold tracking-widest">本次用时</span>
+                      <span className="text-2xl font-black font-mono">{time.toFixed(2)}s</span>
+                    </div>
+                    {settings.laps > 1 && bestLap && (
+                      <div className="flex justify-between items-center">
+                        <span className="text-slate-500 uppercase text-xs font-bold tracking-widest">最快单圈</span>
+                        <span className="text-xl font-bold font-mono">{bestLap.time.toFixed(2)}s</span>
+                      </div>
+                    )}
+                    {bestTime && (
+                      <div className="flex justify-between items-center">
+                        <span className="text-slate-500 uppercase text-xs font-bold tracking-widest">最佳纪录</span>
+                        <span className="text-xl font-bold font-mono text-emerald-600">{bestTime.toFixed(2)}s</span>
+                      </div>
+                    )}
                   </div>
-                )}
-              </div>
+
+                  {newVehicles.length > 0 && (
+                    <div className="mb-6 flex items-center gap-3 bg-amber-100 text-amber-800 rounded-2xl px-4 py-3 text-left">
+                      <Unlock className="w-5 h-5 shrink-0" />
+                      <p className="text-sm font-bold">新车解锁：{newVehicles.map(entry => entry.name).join('、')}，去车库看看吧!</p>
+                    </div>
+                  )}
+
+                  {mode === 'race' && standings.length > 0 && (
+                    <ol className="mb-8 space-y-1 text-left">
+                      {standings.map((entry, i) => (
+                        <li
+                          key={entry.name}
+                          className={`flex justify-between items-center px-3 py-1.5 rounded-xl text-sm ${entry.isPlayer ? 'bg-emerald-100 font-black' : 'font-bold text-slate-600'}`}
+                        >
+                          <span>{i + 1}. {entry.name}</span>
+                          <span className="font-mono">{entry.estimated ? '~' : ''}{entry.time.toFixed(2)}s</span>
+                        </li>
+                      ))}
+                    </ol>
+                  )}
+
+                  {lastReplay && <LeaderboardPanel key={lastReplay.recordedAt} replay={lastReplay} />}
+                </>
+              )}
 
               <div className="flex flex-col gap-3">
+                {mode !== 'versus' && mode !== 'online' && lastReplay && (
+                  <button
+                    onClick={() => exportReplay(lastReplay)}
+                    className="flex items-center justify-center gap-2 text-slate-500 font-bold text-sm hover:text-slate-700"
+                  >
+                    <Download className="w-4 h-4" />
+                    导出本次回放
+                  </button>
+                )}
+                {mode !== 'online' && (
+                  <button
+                    onClick={startGame}
+                    className="flex items-center justify-center gap-3 bg-slate-900 text-white py-4 rounded-2xl font-bold hover:bg-slate-800 transition-colors"
+                  >
+                    <RotateCcw className="w-5 h-5" />
+                    再来一局
+                  </button>
+                )}
                 <button
-                  onClick={startGame}
-                  className="flex items-center justify-center gap-3 bg-slate-900 text-white py-4 rounded-2xl font-bold hover:bg-slate-800 transition-colors"
+                  onClick={() => transition('START')}
+                  className="text-slate-400 font-bold text-sm hover:text-slate-600"
                 >
-                  <RotateCcw className="w-5 h-5" />
-                  再来一局
+                  {testDrive ? '返回编辑器' : (mode === 'online' && room ? '返回房间' : '返回主菜单')}
                 </button>
+              </div>
+            </motion.div>
+          </motion.div>
+        )}
+
+        {gameState === 'GAMEOVER' && (
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="absolute inset-0 bg-red-500 flex flex-col items-center justify-center p-6 text-center text-slate-900"
+          >
+            <motion.div
+              initial={{ scale: 0.5, opacity: 0 }}
+              animate={{ scale: 1, opacity: 1 }}
+              className="bg-white p-12 rounded-[3rem] shadow-2xl max-w-sm w-full"
+            >
+              {failure === 'wrecked' ? (
+                <Wrench className="w-24 h-24 mx-auto mb-6 text-red-500" />
+              ) : (
+                <Hourglass className="w-24 h-24 mx-auto mb-6 text-red-500" />
+              )}
+              <h2 className="text-4xl font-black mb-2 uppercase italic">{failure === 'wrecked' ? '车辆报废!' : '时间到!'}</h2>
+              <p className="text-slate-500 text-sm font-bold">{mode === 'endless' ? '无尽模式' : track?.definition.name}</p>
+              {mode === 'endless' ? (
+                <div className="my-8 space-y-4">
+                  <div className="flex justify-between items-center border-b border-slate-100 pb-2">
+                    <span className="text-slate-500 uppercase text-xs font-bold tracking-widest">得分</span>
+                    <span className="text-3xl font-black tabular-nums">{score}</span>
+                  </div>
+                  <div className="flex justify-between items-center border-b border-slate-100 pb-2">
+                    <span className="text-slate-500 uppercase text-xs font-bold tracking-widest">最高得分</span>
+                    <span className="text-xl font-bold tabular-nums">
+                      {score >= bestScore && score > 0 && <span className="mr-2 text-xs text-emerald-500">新纪录!</span>}
+                      {bestScore}
+                    </span>
+                  </div>
+                  <div className="flex justify-between items-center">
+                    <span className="text-slate-500 uppercase text-xs font-bold tracking-widest">等级</span>
+                    <span className="text-xl font-bold tabular-nums">{level}</span>
+                  </div>
+                </div>
+              ) : (
+                <div className="my-8 space-y-4">
+                  <div className="flex justify-between items-center border-b border-slate-100 pb-2">
+                    <span className="text-slate-500 uppercase text-xs font-bold tracking-widest">到达</span>
+                    <span className="text-xl font-black">
+                      {settings.laps > 1 && `第 ${lap} 圈 · `}检查点 {checkpointsPassed}
+                    </span>
+                  </div>
+                  <div className="flex justify-between items-center">
+                    <span className="text-slate-500 uppercase text-xs font-bold tracking-widest">完成度</span>
+                    <span className="text-xl font-bold font-mono">{distance}%</span>
+                  </div>
+                </div>
+              )}
+              <div className="flex flex-col gap-3">
+                {mode !== 'online' && (
+                  <button
+                    onClick={startGame}
+                    className="flex items-center justify-center gap-3 bg-slate-900 text-white py-4 rounded-2xl font-bold hover:bg-slate-800 transition-colors"
+                  >
+                    <RotateCcw className="w-5 h-5" />
+                    再来一局
+                  </button>
+                )}
                 <button
-                  onClick={() => setGameState('START')}
+                  onClick={() => transition('START')}
                   className="text-slate-400 font-bold text-sm hover:text-slate-600"
                 >
-                  返回主菜单
+                  {testDrive ? '返回编辑器' : (mode === 'online' && room ? '返回房间' : '返回主菜单')}
                 </button>
               </div>
             </motion.div>
           </motion.div>
         )}
+
+        {(gameState === 'COUNTDOWN' || gameState === 'RESUMING') && countdown > 0 && (
+          <motion.div
+            key={`countdown-${countdown}`}
+            initial={{ scale: 1.6, opacity: 0 }}
+            animate={{ scale: 1, opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="absolute inset-0 flex flex-col items-center justify-center pointer-events-none text-white"
+          >
+            {gameState === 'RESUMING' && <p className="text-sm font-bold tracking-widest uppercase opacity-70 mb-2">准备继续</p>}
+            <p className="text-9xl font-black italic drop-shadow-[0_4px_12px_rgba(0,0,0,0.5)] tabular-nums">{countdown}</p>
+          </motion.div>
+        )}
+
+        {gameState === 'PAUSED' && (
+          <motion.div
+            key="paused"
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="absolute inset-0 z-10 bg-slate-900/70 backdrop-blur-md flex flex-col items-center justify-center p-6 text-white"
+          >
+            <h2 className="text-5xl font-black italic mb-2">暂停</h2>
+            <p className="text-sm opacity-60 mb-8 tabular-nums">{mode === 'endless' ? `得分 ${score}` : `用时 ${time.toFixed(1)}s`}</p>
+            {mode === 'online' && <p className="text-sm text-amber-400 font-bold -mt-6 mb-8">其他玩家不会暂停，比赛仍在继续</p>}
+            <div className="flex flex-col gap-3 w-full max-w-xs">
+              <button
+                onClick={() => transition('RESUMING')}
+                className="flex items-center justify-center gap-3 bg-emerald-500 text-slate-900 py-4 rounded-2xl font-bold hover:bg-emerald-400 transition-colors"
+              >
+                <Play className="w-5 h-5 fill-current" />
+                继续
+              </button>
+              {mode !== 'online' && (
+                <button
+                  onClick={startGame}
+                  className="flex items-center justify-center gap-3 bg-white/10 py-4 rounded-2xl font-bold hover:bg-white/20 transition-colors"
+                >
+                  <RotateCcw className="w-5 h-5" />
+                  重新开始
+                </button>
+              )}
+              <button
+                onClick={quitRace}
+                className="flex items-center justify-center gap-2 text-slate-400 font-bold text-sm hover:text-white py-2"
+              >
+                <LogOut className="w-4 h-4" />
+                {mode === 'online' ? '退出比赛' : (testDrive ? '返回编辑器' : '退出到主菜单')}
+              </button>
+            </div>
+            <p className="mt-6 text-xs opacity-40">按 Esc 或 P 继续</p>
+          </motion.div>
+        )}
+
+        {showGarage && (
+          <GarageScreen
+            vehicleId={vehicle.id}
+            bestTime={localBestTime}
+            onSelect={setVehicleId}
+            onClose={() => setShowGarage(false)}
+          />
+        )}
+
+        {gameState === 'START' && editor && (
+          <TrackEditor
+            editor={editor}
+            onChange={setEditor}
+            assets={assetsRef.current}
+            onTestDrive={startTestDrive}
+            onClose={() => setEditor(null)}
+          />
+        )}
+
+        {showProfile && profileRef.current && (
+          <ProfileScreen profile={profileRef.current.get()} onClose={() => setShowProfile(false)} />
+        )}
+
+        {showControls && (
+          <ControlsScreen
+            bindings={bindings}
+            onChange={setBindings}
+            volumes={volumes}
+            onVolumesChange={setVolumes}
+            renderer={rendererChoice}
+            rendererKind={rendererKind}
+            onRendererChange={setRendererChoice}
+            renderScale={renderScale}
+            onRenderScaleChange={setRenderScale}
+            rearView={rearView}
+            onRearViewChange={setRearView}
+            debug={showDebug}
+            onDebugChange={setShowDebug}
+            onClose={() => setShowControls(false)}
+          />
+        )}
       </AnimatePresence>
 
       {/* Mobile Hint */}
-      {gameState === 'PLAYING' && distance < 5 && (
+      {gameState === 'PLAYING' && mode !== 'versus' && distance < 5 && (
         <motion.div 
           initial={{ opacity: 0, y: 20 }}
           animate={{ opacity: 1, y: 0 }}
@@ -0,0 +1,61 @@
+import { KILOMETER } from './game/constants';
+import type { Profile, Run } from './profile';
+
+// --- Achievements ---
+// Missions checked against the current run and the lifetime profile. Run
+// missions can unlock in the middle of a race; the profile only includes a
+// run once it has ended, so lifetime totals unlock on the results screen.
+
+export type AchievementId = 'first-finish' | 'clean-finish' | 'boosts' | 'miniboosts' | 'endless-distance' | 'races' | 'distance';
+
+export type Achievement = {
+  id: AchievementId;
+  name: string;
+  description: string;
+  check: (run: Run, profile: Profile) => boolean;
+};
+
+export const ACHIEVEMENTS: Achievement[] = [
+  {
+    id: 'first-finish',
+    name: '初次冲线',
+    description: '完成一场比赛',
+    check: run => run.finished,
+  },
+  {
+    id: 'clean-finish',
+    name: '毫发无伤',
+    description: '完成比赛且没有撞到石头',
+    check: run => run.finished && run.obstacles === 0,
+  },
+  {
+    id: 'boosts',
+    name: '氮气收集者',
+    description: '一局内吃到 5 个氮气',
+    check: run => run.boosts >= 5,
+  },
+  {
+    id: 'miniboosts',
+    name: '漂移高手',
+    description: '一局内触发 3 次漂移加速',
+    check: run => run.miniboosts >= 3,
+  },
+  {
+    id: 'endless-distance',
+    name: '长途跋涉',
+    description: '无尽模式一局行驶 10 公里',
+    check: run => run.mode === 'endless' && run.distance >= 10 * KILOMETER,
+  },
+  {
+    id: 'races',
+    name: '老司机',
+    description: '累计完成 25 场比赛',
+    check: (_run, profile) => profile.racesFinished >= 25,
+  },
+  {
+    id: 'distance',
+    name: '百公里',
+    description: '累计行驶 100 公里',
+    check: (_run, profile) => profile.distance >= 100 * KILOMETER,
+  },
+];
@@ -0,0 +1,61 @@
+import type { Replay } from './game/replay';
+import type { RaceMode } from './game/types';
+
+// --- Leaderboard API ---
+// Shared by the browser client and the Express server in /server.
+
+export type LeaderboardEntry = {
+  rank: number;
+  playerName: string;
+  time: number;
+  createdAt: string;
+};
+
+export type PlayerBest = {
+  trackId: string;
+  mode: RaceMode;
+  laps: number;
+  time: number;
+};
+
+export type SubmitRunRequest = {
+  playerName: string;
+  replay: Replay;
+};
+
+export type SubmitRunResponse = {
+  id: number;
+  time: number; // as verified by the server
+  rank: number;
+  personalBest: boolean;
+};
+
+export const MAX_PLAYER_NAME_LENGTH = 16;
+
+export class ApiError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+const API_BASE = '/api';
+
+const request = async <T>(path: string, init?: RequestInit): Promise<T> => {
+  const res = await fetch(API_BASE + path, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...init?.headers },
+  });
+  const body = await res.json().catch(() => null);
+  if (!res.ok) throw new ApiError(res.status, body?.error ?? res.statusText);
+  return body as T;
+};
+
+export const submitRun = (run: SubmitRunRequest) =>
+  request<SubmitRunResponse>('/runs', { method: 'POST', body: JSON.stringify(run) });
+
+export const fetchLeaderboard = (trackId: string, mode: RaceMode, laps: number, limit = 10) =>
+  request<LeaderboardEntry[]>(`/leaderboard/${encodeURIComponent(trackId)}?mode=${mode}&laps=${laps}&limit=${limit}`);
+
+export const fetchPlayerBests = (playerName: string) =>
+  request<PlayerBest[]>(`/players/${encodeURIComponent(playerName)}/bests`);
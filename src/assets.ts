@@ -0,0 +1,93 @@
+// --- Assets ---
+// Sprite images are preloaded before the first race. A manifest entry is either
+// a single image or an atlas sheet cut into named frames. Anything that fails
+// to load is reported and skipped; the renderer falls back to vector shapes.
+
+export type AssetFrame = {
+  image: HTMLImageElement;
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+};
+
+export type FrameRect = { x: number; y: number; w: number; h: number };
+
+export type AssetEntry =
+  | { kind: 'image'; id: string; src: string }
+  | { kind: 'atlas'; src: string; frames: Record<string, FrameRect> };
+
+const SPRITE_BASE = '/sprites/';
+const CAR_FRAME: Omit<FrameRect, 'x'> = { y: 0, w: 140, h: 90 };
+
+// A player car sheet: steering left, straight and right, side by side
+const carAtlas = (sprite: string): AssetEntry => ({
+  kind: 'atlas',
+  src: `${SPRITE_BASE}${sprite}.svg`,
+  frames: {
+    [`${sprite}-left`]: { x: 0, ...CAR_FRAME },
+    [`${sprite}-straight`]: { x: 140, ...CAR_FRAME },
+    [`${sprite}-right`]: { x: 280, ...CAR_FRAME },
+  },
+});
+
+export const ASSET_MANIFEST: AssetEntry[] = [
+  { kind: 'image', id: 'rock', src: `${SPRITE_BASE}rock.svg` },
+  { kind: 'image', id: 'tree', src: `${SPRITE_BASE}tree.svg` },
+  { kind: 'image', id: 'boost', src: `${SPRITE_BASE}boost.svg` },
+  carAtlas('player'),
+  carAtlas('rally'),
+  carAtlas('muscle'),
+  carAtlas('formula'),
+];
+
+export type AssetManager = {
+  load: (onProgress?: (loaded: number, total: number) => void) => Promise<void>;
+  get: (id: string) => AssetFrame | null;
+  failed: () => string[]; // sources that could not be loaded
+};
+
+const loadImage = (src: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image();
+    image.decoding = 'async';
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error(`failed to load ${src}`));
+    image.src = src;
+  });
+
+export const createAssetManager = (manifest: AssetEntry[] = ASSET_MANIFEST): AssetManager => {
+  const frames = new Map<string, AssetFrame>();
+  const failed: string[] = [];
+  let loading: Promise<void> | null = null;
+
+  const loadEntry = async (entry: AssetEntry) => {
+    try {
+      const image = await loadImage(entry.src);
+      if (entry.kind === 'image') {
+        frames.set(entry.id, { image, x: 0, y: 0, w: image.naturalWidth, h: image.naturalHeight });
+      } else {
+        for (const [id, rect] of Object.entries(entry.frames)) frames.set(id, { image, ...rect });
+      }
+    } catch (err) {
+      console.warn(`Missing sprite asset, falling back to shapes`, err);
+      failed.push(entry.src);
+    }
+  };
+
+  return {
+    load: onProgress => {
+      if (!loading) {
+        let loaded = 0;
+        onProgress?.(0, manifest.length);
+        loading = Promise.all(manifest.map(async entry => {
+          await loadEntry(entry);
+          onProgress?.(++loaded, manifest.length);
+        })).then(() => undefined);
+      }
+      return loading;
+    },
+    get: id => frames.get(id) ?? null,
+    failed: () => [...failed],
+  };
+};
@@ -0,0 +1,280 @@
+import type { EngineEvent } from './game/engine';
+
+// --- Audio ---
+// Everything is synthesized with Web Audio, no sample files. Browsers only allow
+// an AudioContext to start after a user gesture, so the context is created on
+// the first key press, click or touch and stays silent until then.
+
+export type Volumes = {
+  master: number; // 0 to 1
+  music: number;
+  sfx: number;
+};
+
+export type EngineSound = {
+  running: boolean; // the race is on
+  speed: number; // 0 to 1 (fraction of top speed, above 1 while boosting)
+  throttle: number;
+  offRoad: boolean;
+};
+
+export const DEFAULT_VOLUMES: Volumes = { master: 0.8, music: 0.4, sfx: 0.8 };
+
+export const SILENT_ENGINE: EngineSound = { running: false, speed: 0, throttle: 0, offRoad: false };
+
+export const parseVolumes = (data: unknown): Volumes => {
+  const value = data as Partial<Volumes> | null;
+  if (!value || typeof value !== 'object') throw new Error('invalid volumes');
+  const volumes = { ...DEFAULT_VOLUMES };
+  for (const key of Object.keys(volumes) as (keyof Volumes)[]) {
+    const level = value[key];
+    if (typeof level === 'number' && level >= 0 && level <= 1) volumes[key] = level;
+  }
+  return volumes;
+};
+
+const ENGINE_IDLE_HZ = 55;
+const ENGINE_RANGE_HZ = 220;
+const RAMP = 0.05; // seconds, smooths parameter changes to avoid clicks
+const UNLOCK_EVENTS = ['pointerdown', 'keydown', 'touchend'];
+
+// A short looping bass line and arpeggio, in semitones above A2
+const MUSIC_STEP = 0.2; // seconds per step
+const MUSIC_BASS = [0, 0, 12, 0, 5, 5, 17, 5, 7, 7, 19, 7, 3, 3, 15, 3];
+const MUSIC_LEAD = [24, 27, 31, 27, 29, 33, 36, 33, 31, 34, 38, 34, 27, 31, 34, 31];
+const MUSIC_LOOKAHEAD = 0.3; // seconds of music scheduled ahead of time
+
+const noteHz = (semitones: number) => 110 * Math.pow(2, semitones / 12);
+
+export type AudioManager = {
+  setVolumes: (volumes: Volumes) => void;
+  updateEngine: (sound: EngineSound) => void;
+  play: (event: EngineEvent) => void;
+  dispose: () => void;
+};
+
+type Graph = {
+  ctx: AudioContext;
+  master: GainNode;
+  music: GainNode;
+  sfx: GainNode;
+  engine: { low: OscillatorNode; high: OscillatorNode; filter: BiquadFilterNode; gain: GainNode };
+  rumble: GainNode;
+  noise: AudioBuffer;
+};
+
+const createNoise = (ctx: AudioContext, seconds: number) => {
+  const buffer = ctx.createBuffer(1, Math.floor(ctx.sampleRate * seconds), ctx.sampleRate);
+  const data = buffer.getChannelData(0);
+  for (let i = 0; i < data.length; i++) data[i] = Math.random() * 2 - 1;
+  return buffer;
+};
+
+const applyVolumes = (graph: Graph, volumes: Volumes) => {
+  const now = graph.ctx.currentTime;
+  graph.master.gain.setTargetAtTime(volumes.master, now, RAMP);
+  graph.music.gain.setTargetAtTime(volumes.music, now, RAMP);
+  graph.sfx.gain.setTargetAtTime(volumes.sfx, now, RAMP);
+};
+
+const createGraph = (volumes: Volumes): Graph => {
+  const ctx = new AudioContext();
+  const master = ctx.createGain();
+  master.connect(ctx.destination);
+  const music = ctx.createGain();
+  music.connect(master);
+  const sfx = ctx.createGain();
+  sfx.connect(master);
+
+  // Engine: two detuned oscillators through a lowpass that opens up with speed
+  const filter = ctx.createBiquadFilter();
+  filter.type = 'lowpass';
+  const gain = ctx.createGain();
+  gain.gain.value = 0;
+  filter.connect(gain).connect(sfx);
+  const low = ctx.createOscillator();
+  low.type = 'sawtooth';
+  const high = ctx.createOscillator();
+  high.type = 'square';
+  low.connect(filter);
+  high.connect(filter);
+  low.start();
+  high.start();
+
+  // Off-road rumble: looped, lowpassed noise faded in while on the grass
+  const noise = createNoise(ctx, 2);
+  const rumbleSource = ctx.createBufferSource();
+  rumbleSource.buffer = noise;
+  rumbleSource.loop = true;
+  const rumbleFilter = ctx.createBiquadFilter();
+  rumbleFilter.type = 'lowpass';
+  rumbleFilter.frequency.value = 400;
+  const rumble = ctx.createGain();
+  rumble.gain.value = 0;
+  rumbleSource.connect(rumbleFilter).connect(rumble).connect(sfx);
+  rumbleSource.start();
+
+  const graph = { ctx, master, music, sfx, engine: { low, high, filter, gain }, rumble, noise };
+  applyVolumes(graph, volumes);
+  return graph;
+};
+
+// --- Effects ---
+
+const tone = (graph: Graph, type: OscillatorType, from: number, to: number, start: number, duration: number, level: number) => {
+  const { ctx } = graph;
+  const osc = ctx.createOscillator();
+  osc.type = type;
+  osc.frequency.setValueAtTime(from, start);
+  osc.frequency.exponentialRampToValueAtTime(to, start + duration);
+  const gain = ctx.createGain();
+  gain.gain.setValueAtTime(level, start);
+  gain.gain.exponentialRampToValueAtTime(0.001, start + duration);
+  osc.connect(gain).connect(graph.sfx);
+  osc.start(start);
+  osc.stop(start + duration);
+};
+
+const burst = (graph: Graph, start: number, duration: number, level: number, cutoff: number) => {
+  const { ctx } = graph;
+  const source = ctx.createBufferSource();
+  source.buffer = graph.noise;
+  const filter = ctx.createBiquadFilter();
+  filter.type = 'lowpass';
+  filter.frequency.value = cutoff;
+  const gain = ctx.createGain();
+  gain.gain.setValueAtTime(level, start);
+  gain.gain.exponentialRampToValueAtTime(0.001, start + duration);
+  source.connect(filter).connect(gain).connect(graph.sfx);
+  source.start(start);
+  source.stop(start + duration);
+};
+
+const EFFECTS: Partial<Record<EngineEvent, (graph: Graph, now: number) => void>> = {
+  obstacle: (graph, now) => {
+    burst(graph, now, 0.35, 0.9, 1200);
+    tone(graph, 'sine', 120, 40, now, 0.3, 0.8);
+  },
+  prop: (graph, now) => {
+    burst(graph, now, 0.5, 1, 600);
+    tone(graph, 'sine', 90, 30, now, 0.45, 0.9);
+  },
+  car: (graph, now) => {
+    burst(graph, now, 0.15, 0.5, 800);
+    tone(graph, 'square', 90, 60, now, 0.12, 0.3);
+  },
+  boost: (graph, now) => {
+    tone(graph, 'sawtooth', 220, 880, now, 0.4, 0.25);
+    tone(graph, 'sine', 440, 1760, now + 0.05, 0.35, 0.2);
+  },
+  drift: (graph, now) => {
+    burst(graph, now, 0.4, 0.35, 3000);
+  },
+  miniboost: (graph, now) => {
+    tone(graph, 'sawtooth', 330, 990, now, 0.25, 0.2);
+  },
+  checkpoint: (graph, now) => {
+    tone(graph, 'square', 880, 880, now, 0.08, 0.15);
+    tone(graph, 'square', 1320, 1320, now + 0.09, 0.12, 0.15);
+  },
+  lap: (graph, now) => {
+    [660, 880, 1100].forEach((hz, i) => tone(graph, 'triangle', hz, hz, now + i * 0.1, 0.2, 0.3));
+  },
+  finish: (graph, now) => {
+    [523, 659, 784, 1047].forEach((hz, i) => tone(graph, 'triangle', hz, hz, now + i * 0.12, i === 3 ? 0.8 : 0.2, 0.35));
+  },
+  timeout: (graph, now) => {
+    [392, 330, 262].forEach((hz, i) => tone(graph, 'sawtooth', hz, hz * 0.97, now + i * 0.2, 0.3, 0.25));
+  },
+  wrecked: (graph, now) => {
+    burst(graph, now, 1.2, 1, 2000);
+    tone(graph, 'sawtooth', 200, 40, now + 0.1, 1, 0.4);
+  },
+};
+
+// --- Manager ---
+
+export const createAudioManager = (initialVolumes: Volumes): AudioManager => {
+  let volumes = initialVolumes;
+  let graph: Graph | null = null;
+  let musicTimer: number | null = null;
+  let musicStep = 0;
+  let nextNoteTime = 0;
+
+  const unlock = () => {
+    if (!graph) {
+      try {
+        graph = createGraph(volumes);
+      } catch (err) {
+        console.warn('Web Audio is unavailable, continuing without sound', err);
+        removeUnlockListeners();
+        return;
+      }
+    }
+    graph.ctx.resume().then(removeUnlockListeners, () => {});
+  };
+  const removeUnlockListeners = () => UNLOCK_EVENTS.forEach(type => window.removeEventListener(type, unlock));
+  UNLOCK_EVENTS.forEach(type => window.addEventListener(type, unlock));
+
+  // Schedules notes slightly ahead of the audio clock so timer jitter can't be heard
+  const scheduleMusic = () => {
+    if (!graph) return;
+    const { ctx } = graph;
+    nextNoteTime = Math.max(nextNoteTime, ctx.currentTime);
+    while (nextNoteTime < ctx.currentTime + MUSIC_LOOKAHEAD) {
+      const i = musicStep % MUSIC_BASS.length;
+      for (const [semitones, type, level] of [[MUSIC_BASS[i], 'triangle', 0.35], [MUSIC_LEAD[i], 'square', 0.08]] as const) {
+        const osc = ctx.createOscillator();
+        osc.type = type;
+        osc.frequency.value = noteHz(semitones);
+        const gain = ctx.createGain();
+        gain.gain.setValueAtTime(level, nextNoteTime);
+        gain.gain.exponentialRampToValueAtTime(0.001, nextNoteTime + MUSIC_STEP * 0.9);
+        osc.connect(gain).connect(graph.music);
+        osc.start(nextNoteTime);
+        osc.stop(nextNoteTime + MUSIC_STEP);
+      }
+      nextNoteTime += MUSIC_STEP;
+      musicStep++;
+    }
+  };
+
+  const setMusic = (playing: boolean) => {
+    if (playing && musicTimer === null) {
+      musicStep = 0;
+      musicTimer = window.setInterval(scheduleMusic, (MUSIC_LOOKAHEAD * 1000) / 3);
+      scheduleMusic();
+    } else if (!playing && musicTimer !== null) {
+      window.clearInterval(musicTimer);
+      musicTimer = null;
+    }
+  };
+
+  return {
+    setVolumes: next => {
+      volumes = next;
+      if (graph) applyVolumes(graph, volumes);
+    },
+    updateEngine: sound => {
+      setMusic(sound.running);
+      if (!graph) return;
+      const { ctx, engine, rumble } = graph;
+      const now = ctx.currentTime;
+      const hz = ENGINE_IDLE_HZ + ENGINE_RANGE_HZ * sound.speed;
+      engine.low.frequency.setTargetAtTime(hz, now, RAMP);
+      engine.high.frequency.setTargetAtTime(hz * 0.501, now, RAMP);
+      engine.filter.frequency.setTargetAtTime(300 + 1500 * sound.speed + 600 * sound.throttle, now, RAMP);
+      engine.gain.gain.setTargetAtTime(sound.running ? 0.12 + 0.1 * sound.throttle : 0, now, RAMP);
+      rumble.gain.setTargetAtTime(sound.running && sound.offRoad ? 0.6 * Math.min(1, sound.speed * 2) : 0, now, RAMP);
+    },
+    play: event => {
+      if (graph?.ctx.state === 'running') EFFECTS[event]?.(graph, graph.ctx.currentTime);
+    },
+    dispose: () => {
+      removeUnlockListeners();
+      setMusic(false);
+      graph?.ctx.close();
+      graph = null;
+    },
+  };
+};
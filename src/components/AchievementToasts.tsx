@@ -0,0 +1,34 @@
+import React from 'react';
+import { AnimatePresence, motion } from 'motion/react';
+import { Award } from 'lucide-react';
+import type { Achievement } from '../achievements';
+
+type AchievementToastsProps = {
+  achievements: Achievement[]; // oldest first
+};
+
+// Newly unlocked achievements, stacked in the top right corner over the race
+export default function AchievementToasts({ achievements }: AchievementToastsProps) {
+  return (
+    <div className="absolute top-28 right-6 z-40 flex flex-col items-end gap-2 pointer-events-none">
+      <AnimatePresence>
+        {achievements.map(achievement => (
+          <motion.div
+            key={achievement.id}
+            initial={{ opacity: 0, x: 40 }}
+            animate={{ opacity: 1, x: 0 }}
+            exit={{ opacity: 0 }}
+            className="flex items-center gap-3 bg-black/60 backdrop-blur-md border border-amber-400/40 rounded-2xl px-4 py-3 text-white shadow-xl"
+          >
+            <Award className="w-6 h-6 text-amber-400 shrink-0" />
+            <div>
+              <p className="text-[10px] uppercase tracking-wider text-amber-400">成就解锁</p>
+              <p className="font-black">{achievement.name}</p>
+              <p className="text-xs opacity-60">{achievement.description}</p>
+            </div>
+          </motion.div>
+        ))}
+      </AnimatePresence>
+    </div>
+  );
+}
@@ -0,0 +1,47 @@
+import React from 'react';
+import { CloudRain, Map as MapIcon, Moon, Shuffle, Snowflake, Sun, Sunset } from 'lucide-react';
+import { ATMOSPHERES, type AtmosphereId } from '../game/atmosphere';
+
+// 'track' uses the track's own atmosphere; 'random' rolls a new one every race
+export type AtmosphereChoice = AtmosphereId | 'track' | 'random';
+
+const CHOICES: { id: AtmosphereChoice; label: string; icon: typeof Sun }[] = [
+  { id: 'track', label: '赛道默认', icon: MapIcon },
+  { id: 'day', label: ATMOSPHERES.day.name, icon: Sun },
+  { id: 'dusk', label: ATMOSPHERES.dusk.name, icon: Sunset },
+  { id: 'night', label: ATMOSPHERES.night.name, icon: Moon },
+  { id: 'rain', label: ATMOSPHERES.rain.name, icon: CloudRain },
+  { id: 'snow', label: ATMOSPHERES.snow.name, icon: Snowflake },
+  { id: 'random', label: '随机', icon: Shuffle },
+];
+
+export const parseAtmosphereChoice = (data: unknown): AtmosphereChoice => {
+  const choice = CHOICES.find(entry => entry.id === data);
+  if (!choice) throw new Error('invalid atmosphere choice');
+  return choice.id;
+};
+
+type AtmospherePickerProps = {
+  choice: AtmosphereChoice;
+  onChange: (choice: AtmosphereChoice) => void;
+};
+
+export default function AtmospherePicker({ choice, onChange }: AtmospherePickerProps) {
+  return (
+    <div className="mb-10 flex bg-white/5 border border-white/10 rounded-2xl p-1">
+      {CHOICES.map(({ id, label, icon: Icon }) => (
+        <button
+          key={id}
+          onClick={() => onChange(id)}
+          title={label}
+          className={`flex items-center gap-2 px-3 py-2 rounded-xl text-sm font-bold transition-colors ${
+            id === choice ? 'bg-emerald-500 text-slate-900' : 'text-slate-300 hover:bg-white/10'
+          }`}
+        >
+          <Icon className="w-4 h-4" />
+          {id === choice && label}
+        </button>
+      ))}
+    </div>
+  );
+}
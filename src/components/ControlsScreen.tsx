@@ -0,0 +1,246 @@
+import React, { useEffect, useState } from 'react';
+import { motion } from 'motion/react';
+import { Gamepad2, Keyboard, Monitor, RotateCcw, Volume2, X } from 'lucide-react';
+import type { Volumes } from '../audio';
+import { ACTION_LABELS, ACTIONS, DEFAULT_BINDINGS, getGamepad, keyLabel, type Action, type Bindings } from '../input';
+import { RENDERER_LABELS, type RendererChoice, type RendererKind } from '../render/renderer';
+import { RENDER_SCALES, type RenderScale } from '../render/viewport';
+
+type GamepadTarget = keyof Bindings['gamepad'];
+
+const GAMEPAD_LABELS: Record<GamepadTarget, string> = {
+  steerAxis: '转向摇杆',
+  throttle: '油门',
+  brake: '刹车',
+  drift: '漂移',
+};
+
+const VOLUME_LABELS: Record<keyof Volumes, string> = {
+  master: '总音量',
+  music: '音乐',
+  sfx: '音效',
+};
+
+type Listening = { kind: 'key'; action: Action } | { kind: 'gamepad'; target: GamepadTarget } | null;
+
+type ControlsScreenProps = {
+  bindings: Bindings;
+  onChange: (bindings: Bindings) => void;
+  volumes: Volumes;
+  onVolumesChange: (volumes: Volumes) => void;
+  renderer: RendererChoice;
+  rendererKind: RendererKind | null; // the backend actually in use
+  onRendererChange: (renderer: RendererChoice) => void;
+  renderScale: RenderScale;
+  onRenderScaleChange: (scale: RenderScale) => void;
+  rearView: boolean;
+  onRearViewChange: (rearView: boolean) => void;
+  debug: boolean;
+  onDebugChange: (debug: boolean) => void;
+  onClose: () => void;
+};
+
+export default function ControlsScreen({ bindings, onChange, volumes, onVolumesChange, renderer, rendererKind, onRendererChange, renderScale, onRenderScaleChange, rearView, onRearViewChange, debug, onDebugChange, onClose }: ControlsScreenProps) {
+  const [listening, setListening] = useState<Listening>(null);
+  const [gamepadName, setGamepadName] = useState(() => getGamepad()?.id ?? null);
+
+  useEffect(() => {
+    const update = () => setGamepadName(getGamepad()?.id ?? null);
+    window.addEventListener('gamepadconnected', update);
+    window.addEventListener('gamepaddisconnected', update);
+    return () => {
+      window.removeEventListener('gamepadconnected', update);
+      window.removeEventListener('gamepaddisconnected', update);
+    };
+  }, []);
+
+  // Capture the next key press for the action being rebound
+  useEffect(() => {
+    if (listening?.kind !== 'key') return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      e.preventDefault();
+      e.stopPropagation();
+      if (e.code !== 'Escape') {
+        const keys = { ...bindings.keys };
+        for (const action of ACTIONS) keys[action] = keys[action].filter(code => code !== e.code);
+        keys[listening.action] = [e.code, ...keys[listening.action]].slice(0, 3);
+        onChange({ ...bindings, keys });
+      }
+      setListening(null);
+    };
+    window.addEventListener('keydown', onKeyDown, true);
+    return () => window.removeEventListener('keydown', onKeyDown, true);
+  }, [listening, bindings, onChange]);
+
+  // Poll the gamepad for the next pressed button or moved stick
+  useEffect(() => {
+    if (listening?.kind !== 'gamepad') return;
+    let frame = requestAnimationFrame(function poll() {
+      const pad = getGamepad();
+      const index = listening.target === 'steerAxis'
+        ? pad?.axes.findIndex(value => Math.abs(value) > 0.6) ?? -1
+        : pad?.buttons.findIndex(button => button.pressed) ?? -1;
+      if (index >= 0) {
+        onChange({ ...bindings, gamepad: { ...bindings.gamepad, [listening.target]: index } });
+        setListening(null);
+        return;
+      }
+      frame = requestAnimationFrame(poll);
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [listening, bindings, onChange]);
+
+  const chip = 'px-2 py-1 rounded-lg bg-white/10 font-mono text-xs';
+  const rebindButton = (active: boolean) => `px-3 py-1.5 rounded-xl text-xs font-bold transition-colors ${
+    active ? 'bg-amber-400 text-slate-900' : 'bg-white/5 hover:bg-white/10 text-slate-300'
+  }`;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="absolute inset-0 z-20 bg-slate-900/90 backdrop-blur-xl flex items-center justify-center p-6"
+    >
+      <div className="w-full max-w-md max-h-full overflow-y-auto bg-slate-800/80 border border-white/10 rounded-3xl p-6 text-white text-left">
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-2xl font-black italic">设置</h2>
+          <button onClick={onClose} className="p-2 rounded-xl hover:bg-white/10">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <h3 className="flex items-center gap-2 text-xs uppercase tracking-wider text-slate-400 mb-2">
+          <Keyboard className="w-4 h-4" /> 键盘
+        </h3>
+        <div className="space-y-2 mb-6">
+          {ACTIONS.map(action => (
+            <div key={action} className="flex items-center justify-between gap-3">
+              <span className="w-12 font-bold text-sm">{ACTION_LABELS[action]}</span>
+              <div className="flex-1 flex flex-wrap gap-1">
+                {bindings.keys[action].map(code => <span key={code} className={chip}>{keyLabel(code)}</span>)}
+              </div>
+              <button
+                onClick={() => setListening({ kind: 'key', action })}
+                className={rebindButton(listening?.kind === 'key' && listening.action === action)}
+              >
+                {listening?.kind === 'key' && listening.action === action ? '按下按键…' : '绑定'}
+              </button>
+            </div>
+          ))}
+        </div>
+
+        <h3 className="flex items-center gap-2 text-xs uppercase tracking-wider text-slate-400 mb-2">
+          <Gamepad2 className="w-4 h-4" /> 手柄
+          <span className="normal-case tracking-normal text-slate-500 truncate">{gamepadName ?? '未连接，按任意键唤醒'}</span>
+        </h3>
+        <div className="space-y-2 mb-6">
+          {(Object.keys(GAMEPAD_LABELS) as GamepadTarget[]).map(target => (
+            <div key={target} className="flex items-center justify-between gap-3">
+              <span className="font-bold text-sm">{GAMEPAD_LABELS[target]}</span>
+              <span className={chip}>{target === 'steerAxis' ? '轴' : '键'} {bindings.gamepad[target]}</span>
+              <button
+                disabled={!gamepadName}
+                onClick={() => setListening({ kind: 'gamepad', target })}
+                className={`${rebindButton(listening?.kind === 'gamepad' && listening.target === target)} disabled:opacity-40`}
+              >
+                {listening?.kind === 'gamepad' && listening.target === target ? '操作手柄…' : '绑定'}
+              </button>
+            </div>
+          ))}
+        </div>
+
+        <label className="flex items-center justify-between mb-6 text-sm font-bold">
+          自动油门（未刹车时自动加速）
+          <input
+            type="checkbox"
+            checked={bindings.autoThrottle}
+            onChange={e => onChange({ ...bindings, autoThrottle: e.target.checked })}
+            className="w-5 h-5 accent-emerald-500"
+          />
+        </label>
+
+        <h3 className="flex items-center gap-2 text-xs uppercase tracking-wider text-slate-400 mb-2">
+          <Volume2 className="w-4 h-4" /> 声音
+        </h3>
+        <div className="space-y-2 mb-6">
+          {(Object.keys(VOLUME_LABELS) as (keyof Volumes)[]).map(key => (
+            <label key={key} className="flex items-center justify-between gap-3 text-sm font-bold">
+              <span className="w-12">{VOLUME_LABELS[key]}</span>
+              <input
+                type="range"
+                min={0}
+                max={1}
+                step={0.05}
+                value={volumes[key]}
+                onChange={e => onVolumesChange({ ...volumes, [key]: Number(e.target.value) })}
+                className="flex-1 accent-emerald-500"
+              />
+              <span className="w-10 text-right font-mono text-xs text-slate-400">{Math.round(volumes[key] * 100)}%</span>
+            </label>
+          ))}
+        </div>
+
+        <h3 className="flex items-center gap-2 text-xs uppercase tracking-wider text-slate-400 mb-2">
+          <Monitor className="w-4 h-4" /> 画面
+          {rendererKind && <span className="normal-case tracking-normal text-slate-500">当前：{RENDERER_LABELS[rendererKind]}</span>}
+        </h3>
+        <div className="flex gap-2 mb-2">
+          {(Object.keys(RENDERER_LABELS) as RendererChoice[]).map(choice => (
+            <button
+              key={choice}
+              onClick={() => onRendererChange(choice)}
+              className={`flex-1 ${rebindButton(renderer === choice)}`}
+            >
+              {RENDERER_LABELS[choice]}
+            </button>
+          ))}
+        </div>
+        <div className="flex items-center gap-2 mb-2">
+          <span className="w-16 font-bold text-sm">渲染精度</span>
+          {RENDER_SCALES.map(scale => (
+            <button
+              key={scale}
+              onClick={() => onRenderScaleChange(scale)}
+              className={`flex-1 ${rebindButton(renderScale === scale)}`}
+            >
+              {scale * 100}%
+            </button>
+          ))}
+        </div>
+        <div className="flex items-center gap-2 mb-2">
+          <span className="w-16 font-bold text-sm">后视镜</span>
+          {[true, false].map(on => (
+            <button
+              key={String(on)}
+              onClick={() => onRearViewChange(on)}
+              className={`flex-1 ${rebindButton(rearView === on)}`}
+            >
+              {on ? '开' : '关'}
+            </button>
+          ))}
+        </div>
+        <div className="flex items-center gap-2 mb-6">
+          <span className="w-16 font-bold text-sm">调试信息</span>
+          {[true, false].map(on => (
+            <button
+              key={String(on)}
+              onClick={() => onDebugChange(on)}
+              className={`flex-1 ${rebindButton(debug === on)}`}
+            >
+              {on ? '开' : '关'}
+            </button>
+          ))}
+          <span className="font-mono text-xs text-slate-500">F3</span>
+        </div>
+
+        <button
+          onClick={() => onChange(DEFAULT_BINDINGS)}
+          className="flex items-center gap-2 text-slate-400 text-sm font-bold hover:text-white"
+        >
+          <RotateCcw className="w-4 h-4" /> 恢复默认
+        </button>
+      </div>
+    </motion.div>
+  );
+}
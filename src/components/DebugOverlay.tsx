@@ -0,0 +1,129 @@
+import React, { useState } from 'react';
+import { Bug, Download, RotateCcw, SlidersHorizontal, X } from 'lucide-react';
+import { DEFAULT_TUNING, isTuned, summarize, TUNING_CONTROLS, type FrameSample, type Tuning } from '../debug';
+import { downloadJSON } from '../storage';
+
+export type DebugCar = {
+  segment: number;
+  curve: number;
+  playerX: number;
+  speed: number; // world units per second
+};
+
+type DebugOverlayProps = {
+  samples: FrameSample[]; // oldest first
+  car: DebugCar | null; // null without a track
+  tuning: Tuning;
+  onTuningChange: ((tuning: Tuning) => void) | null; // null where tuning is off, in online races
+  onClose: () => void;
+};
+
+const GRAPH_WIDTH = 240;
+const GRAPH_HEIGHT = 48;
+const GRAPH_MS = 50; // frame time at the top of the graph
+const FRAME_BUDGET = 1000 / 60;
+
+const graphY = (ms: number) => GRAPH_HEIGHT - (Math.min(ms, GRAPH_MS) / GRAPH_MS) * GRAPH_HEIGHT;
+
+// Frame timing, what the last frames drew and where the car is, with sliders
+// for the tunable constants. Toggled with F3 or from the 设置 screen.
+export default function DebugOverlay({ samples, car, tuning, onTuningChange, onClose }: DebugOverlayProps) {
+  const [showTuning, setShowTuning] = useState(false);
+  const summary = summarize(samples);
+  const barWidth = GRAPH_WIDTH / Math.max(samples.length, 1);
+  const rows = [
+    ['FPS', `${summary.fps.toFixed(0)}`],
+    ['帧时间', `${summary.frameTime.toFixed(1)} ms（最慢 ${summary.worstFrame.toFixed(1)}）`],
+    ['模拟 / 绘制', `${summary.update.toFixed(2)} / ${summary.render.toFixed(2)} ms`],
+    ['路段 / 精灵', `${summary.segments.toFixed(0)} / ${summary.sprites.toFixed(0)}`],
+    ...(car
+      ? [
+          ['路段', `#${car.segment}  弯道 ${car.curve}`],
+          ['playerX', car.playerX.toFixed(3)],
+          ['速度', `${car.speed.toFixed(0)}`],
+        ]
+      : []),
+  ];
+
+  return (
+    <div className="absolute bottom-6 left-6 z-30 w-72 bg-black/70 backdrop-blur-md border border-white/10 rounded-2xl p-3 text-white font-mono text-[11px] shadow-xl pointer-events-auto">
+      <div className="flex items-center justify-between mb-2">
+        <span className="flex items-center gap-1.5 font-bold text-emerald-400">
+          <Bug className="w-4 h-4" /> DEBUG
+        </span>
+        <div className="flex gap-1">
+          <button
+            onClick={() => setShowTuning(!showTuning)}
+            className={`p-1 rounded-lg ${showTuning ? 'bg-amber-400 text-slate-900' : 'hover:bg-white/10'}`}
+            aria-label="调参"
+          >
+            <SlidersHorizontal className="w-4 h-4" />
+          </button>
+          <button onClick={onClose} className="p-1 rounded-lg hover:bg-white/10" aria-label="关闭">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      {/* Frame times, simulation and drawing stacked under the total */}
+      <svg width={GRAPH_WIDTH} height={GRAPH_HEIGHT} className="block mb-2 bg-white/5 rounded">
+        {samples.map((sample, i) => (
+          <g key={i}>
+            <rect x={i * barWidth} y={graphY(sample.frameTime)} width={barWidth} height={GRAPH_HEIGHT - graphY(sample.frameTime)} fill="#475569" />
+            <rect x={i * barWidth} y={graphY(sample.update + sample.render)} width={barWidth} height={GRAPH_HEIGHT - graphY(sample.update + sample.render)} fill="#F59E0B" />
+            <rect x={i * barWidth} y={graphY(sample.update)} width={barWidth} height={GRAPH_HEIGHT - graphY(sample.update)} fill="#38BDF8" />
+          </g>
+        ))}
+        <line x1={0} x2={GRAPH_WIDTH} y1={graphY(FRAME_BUDGET)} y2={graphY(FRAME_BUDGET)} stroke="#10B981" strokeDasharray="3 3" />
+      </svg>
+
+      <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-0.5">
+        {rows.map(([label, value]) => (
+          <React.Fragment key={label}>
+            <dt className="text-slate-400">{label}</dt>
+            <dd className="text-right tabular-nums">{value}</dd>
+          </React.Fragment>
+        ))}
+      </dl>
+
+      {showTuning && (
+        <div className="mt-3 pt-3 border-t border-white/10 space-y-1.5">
+          {!onTuningChange && <p className="text-slate-400">联网比赛使用默认参数，不能调参</p>}
+          {onTuningChange && TUNING_CONTROLS.map(({ key, label, min, max, step }) => (
+            <label key={key} className="flex items-center gap-2">
+              <span className="w-16 text-slate-400">{label}</span>
+              <input
+                type="range"
+                min={min}
+                max={max}
+                step={step}
+                value={tuning[key]}
+                onChange={e => onTuningChange({ ...tuning, [key]: Number(e.target.value) })}
+                // Arrow keys steer; don't let a focused slider take them too
+                onPointerUp={e => e.currentTarget.blur()}
+                className="flex-1 accent-emerald-500"
+              />
+              <span className={`w-14 text-right ${tuning[key] !== DEFAULT_TUNING[key] ? 'text-amber-400' : ''}`}>{Number(tuning[key].toFixed(2))}</span>
+            </label>
+          ))}
+          {onTuningChange && isTuned(tuning) && <p className="text-amber-400">已调参：比赛不计入纪录和档案</p>}
+          <div className="flex gap-2 pt-1">
+            <button
+              onClick={() => onTuningChange?.(DEFAULT_TUNING)}
+              disabled={!onTuningChange}
+              className="flex-1 flex items-center justify-center gap-1 py-1.5 rounded-lg bg-white/5 hover:bg-white/10 font-bold disabled:opacity-40"
+            >
+              <RotateCcw className="w-3 h-3" /> 恢复默认
+            </button>
+            <button
+              onClick={() => downloadJSON('tuning.json', tuning)}
+              className="flex-1 flex items-center justify-center gap-1 py-1.5 rounded-lg bg-white/5 hover:bg-white/10 font-bold"
+            >
+              <Download className="w-3 h-3" /> 导出 JSON
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,91 @@
+import React from 'react';
+import { motion } from 'motion/react';
+import { Check, Lock, X } from 'lucide-react';
+import { ACCEL, MAX_SPEED, OFF_ROAD_LIMIT } from '../game/constants';
+import { isUnlocked, VEHICLES, type Vehicle, type VehicleId } from '../game/vehicles';
+import { TRACKS } from '../tracks';
+
+// Bars from 0 to 1, relative to the range the garage's cars span
+const STATS: { label: string; value: (vehicle: Vehicle) => number }[] = [
+  { label: '极速', value: vehicle => (vehicle.topSpeed / MAX_SPEED - 0.85) / 0.3 },
+  { label: '加速', value: vehicle => vehicle.accel / ACCEL / 1.4 },
+  { label: '操控', value: vehicle => (vehicle.handling.steerRate / vehicle.handling.centrifugal) / 12 },
+  { label: '越野', value: vehicle => vehicle.offRoadLimit / OFF_ROAD_LIMIT / 2 },
+  { label: '氮气', value: vehicle => (vehicle.boost - 1) / 0.7 },
+];
+
+const clamp01 = (value: number) => Math.max(0.05, Math.min(1, value));
+
+const trackName = (trackId: string) => TRACKS.find(entry => entry.id === trackId)?.track?.definition.name ?? trackId;
+
+type GarageScreenProps = {
+  vehicleId: VehicleId;
+  bestTime: (trackId: string) => number | null; // best single-lap time, for the unlocks
+  onSelect: (id: VehicleId) => void;
+  onClose: () => void;
+};
+
+export default function GarageScreen({ vehicleId, bestTime, onSelect, onClose }: GarageScreenProps) {
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="absolute inset-0 z-20 bg-slate-900/90 backdrop-blur-xl flex items-center justify-center p-6"
+    >
+      <div className="w-full max-w-md max-h-full overflow-y-auto bg-slate-800/80 border border-white/10 rounded-3xl p-6 text-white text-left">
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-2xl font-black italic">车库</h2>
+          <button onClick={onClose} className="p-2 rounded-xl hover:bg-white/10">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="space-y-3">
+          {VEHICLES.map(vehicle => {
+            const unlocked = isUnlocked(vehicle, bestTime);
+            const selected = vehicle.id === vehicleId;
+            const best = vehicle.unlock ? bestTime(vehicle.unlock.trackId) : null;
+            return (
+              <button
+                key={vehicle.id}
+                onClick={() => onSelect(vehicle.id)}
+                disabled={!unlocked}
+                className={`w-full p-4 rounded-2xl border text-left transition-colors ${
+                  selected ? 'border-emerald-500 bg-emerald-500/10' : 'border-white/10 bg-white/5 hover:bg-white/10'
+                } disabled:hover:bg-white/5 disabled:cursor-not-allowed`}
+              >
+                <div className="flex items-center gap-3 mb-2">
+                  <span
+                    className="w-8 h-5 rounded-md border-2 shrink-0"
+                    style={{ backgroundColor: vehicle.colors.body, borderColor: vehicle.colors.outline }}
+                  />
+                  <span className="flex-1 font-black">{vehicle.name}</span>
+                  {selected && <Check className="w-5 h-5 text-emerald-400" />}
+                  {!unlocked && <Lock className="w-4 h-4 text-slate-400" />}
+                </div>
+                <p className="text-xs text-slate-400 mb-3">{vehicle.description}</p>
+                <div className={`space-y-1 ${unlocked ? '' : 'opacity-40'}`}>
+                  {STATS.map(({ label, value }) => (
+                    <div key={label} className="flex items-center gap-2">
+                      <span className="w-8 text-[10px] text-slate-400">{label}</span>
+                      <div className="flex-1 h-1.5 bg-white/10 rounded-full overflow-hidden">
+                        <div className="h-full bg-emerald-500" style={{ width: `${clamp01(value(vehicle)) * 100}%` }} />
+                      </div>
+                    </div>
+                  ))}
+                </div>
+                {!unlocked && vehicle.unlock && (
+                  <p className="mt-3 text-xs font-bold text-amber-400">
+                    解锁条件：{trackName(vehicle.unlock.trackId)} 单圈用时低于 {vehicle.unlock.time.toFixed(2)}s
+                    <span className="ml-1 font-mono text-slate-400">（最佳 {best !== null ? `${best.toFixed(2)}s` : '--'}）</span>
+                  </p>
+                )}
+              </button>
+            );
+          })}
+        </div>
+      </div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,63 @@
+import React, { useRef, useState } from 'react';
+import { Download, Ghost, Upload } from 'lucide-react';
+import { parseReplay, type Replay } from '../game/replay';
+import { downloadJSON, readJSONFile } from '../storage';
+import { findTrackDefinition } from '../tracks';
+
+export const exportReplay = (replay: Replay) => {
+  const name = replay.trackId.replace(/[^a-z0-9-]+/gi, '-');
+  downloadJSON(`ghost-${name}-${replay.time.toFixed(2)}s.json`, replay);
+};
+
+type GhostControlsProps = {
+  ghost: Replay | null;
+  imported: boolean;
+  onImport: (replay: Replay) => void;
+};
+
+export default function GhostControls({ ghost, imported, onImport }: GhostControlsProps) {
+  const fileRef = useRef<HTMLInputElement>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const importFile = async (file: File) => {
+    try {
+      const replay = parseReplay(await readJSONFile(file));
+      if (!findTrackDefinition(replay.trackId)) throw new Error(`未知赛道 "${replay.trackId}"`);
+      setError(null);
+      onImport(replay);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  return (
+    <div className="mt-6 flex flex-col items-center gap-2 text-sm">
+      <div className="flex items-center gap-3 text-slate-400">
+        <Ghost className="w-4 h-4" />
+        {ghost
+          ? <span>{imported ? '导入的幽灵车' : '个人最佳幽灵车'} <span className="font-mono">{ghost.time.toFixed(2)}s</span></span>
+          : <span>暂无幽灵车</span>}
+        {ghost && (
+          <button onClick={() => exportReplay(ghost)} title="导出回放" className="p-1.5 rounded-lg hover:bg-white/10">
+            <Download className="w-4 h-4" />
+          </button>
+        )}
+        <button onClick={() => fileRef.current?.click()} title="导入回放" className="p-1.5 rounded-lg hover:bg-white/10">
+          <Upload className="w-4 h-4" />
+        </button>
+      </div>
+      <input
+        ref={fileRef}
+        type="file"
+        accept="application/json,.json"
+        className="hidden"
+        onChange={e => {
+          const file = e.target.files?.[0];
+          if (file) importFile(file);
+          e.target.value = '';
+        }}
+      />
+      {error && <p className="text-xs font-mono text-amber-300">回放导入失败: {error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,39 @@
+import React from 'react';
+import { Hourglass, Repeat } from 'lucide-react';
+import { LAP_CHOICES, type RaceSettings } from '../game/laps';
+
+type LapPickerProps = {
+  settings: RaceSettings;
+  onChange: (settings: RaceSettings) => void;
+};
+
+export default function LapPicker({ settings, onChange }: LapPickerProps) {
+  // A lap count set by the track (or an imported ghost) stays selectable
+  const choices = LAP_CHOICES.includes(settings.laps) ? LAP_CHOICES : [...LAP_CHOICES, settings.laps].sort((a, b) => a - b);
+  const button = (active: boolean) => `flex items-center gap-2 px-4 py-2 rounded-xl text-sm font-bold transition-colors ${
+    active ? 'bg-emerald-500 text-slate-900' : 'text-slate-300 hover:bg-white/10'
+  }`;
+
+  return (
+    <div className="mb-4 flex flex-wrap justify-center gap-2">
+      <div className="flex bg-white/5 border border-white/10 rounded-2xl p-1">
+        {choices.map(laps => (
+          <button key={laps} onClick={() => onChange({ ...settings, laps })} className={button(laps === settings.laps)}>
+            {laps === choices[0] && <Repeat className="w-4 h-4" />}
+            {laps} 圈
+          </button>
+        ))}
+      </div>
+      <div className="flex bg-white/5 border border-white/10 rounded-2xl p-1">
+        <button
+          onClick={() => onChange({ ...settings, timeLimit: !settings.timeLimit })}
+          className={button(settings.timeLimit)}
+          title="每过一个检查点增加剩余时间，时间耗尽即失败"
+        >
+          <Hourglass className="w-4 h-4" />
+          限时检查点
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,93 @@
+import React, { useEffect, useState } from 'react';
+import { Medal, Send } from 'lucide-react';
+import { fetchLeaderboard, MAX_PLAYER_NAME_LENGTH, submitRun, type LeaderboardEntry, type SubmitRunResponse } from '../api';
+import type { Replay } from '../game/replay';
+import { loadJSON, saveJSON } from '../storage';
+
+type Status = 'idle' | 'submitting' | 'done' | 'error';
+
+const parseName = (data: unknown) => (typeof data === 'string' ? data : null);
+
+type LeaderboardPanelProps = {
+  replay: Replay;
+};
+
+export default function LeaderboardPanel({ replay }: LeaderboardPanelProps) {
+  const [playerName, setPlayerName] = useState(() => loadJSON('playerName', parseName) ?? '');
+  const [status, setStatus] = useState<Status>('idle');
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<SubmitRunResponse | null>(null);
+  const [entries, setEntries] = useState<LeaderboardEntry[]>([]);
+
+  const submit = async (name: string) => {
+    setStatus('submitting');
+    setError(null);
+    try {
+      saveJSON('playerName', name);
+      setResult(await submitRun({ playerName: name, replay }));
+      setEntries(await fetchLeaderboard(replay.trackId, replay.mode, replay.laps, 5));
+      setStatus('done');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+      setStatus('error');
+    }
+  };
+
+  // Returning players submit automatically
+  useEffect(() => {
+    if (playerName) submit(playerName);
+  }, [replay]);
+
+  const name = playerName.trim();
+
+  return (
+    <div className="mb-6 text-left">
+      {status !== 'done' && (
+        <form
+          className="flex gap-2"
+          onSubmit={e => {
+            e.preventDefault();
+            if (name) submit(name);
+          }}
+        >
+          <input
+            value={playerName}
+            maxLength={MAX_PLAYER_NAME_LENGTH}
+            onChange={e => setPlayerName(e.target.value)}
+            placeholder="你的名字"
+            className="flex-1 min-w-0 px-3 py-2 rounded-xl border border-slate-200 text-sm font-bold outline-none focus:border-emerald-500"
+          />
+          <button
+            type="submit"
+            disabled={!name || status === 'submitting'}
+            className="flex items-center gap-1 px-3 py-2 rounded-xl bg-emerald-500 text-white text-sm font-bold disabled:opacity-50"
+          >
+            <Send className="w-4 h-4" />
+            {status === 'submitting' ? '提交中' : '提交成绩'}
+          </button>
+        </form>
+      )}
+      {error && <p className="mt-2 text-xs text-red-500">排行榜不可用: {error}</p>}
+
+      {status === 'done' && result && (
+        <>
+          <p className="flex items-center gap-2 text-sm font-bold mb-2">
+            <Medal className="w-4 h-4 text-yellow-500" />
+            排行榜第 {result.rank} 名{result.personalBest && <span className="text-emerald-600">· 个人最佳</span>}
+          </p>
+          <ol className="space-y-1">
+            {entries.map(entry => (
+              <li
+                key={entry.playerName}
+                className={`flex justify-between px-3 py-1 rounded-lg text-xs ${entry.playerName === name ? 'bg-emerald-100 font-black' : 'text-slate-600 font-bold'}`}
+              >
+                <span>{entry.rank}. {entry.playerName}</span>
+                <span className="font-mono">{entry.time.toFixed(2)}s</span>
+              </li>
+            ))}
+          </ol>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,45 @@
+import React from 'react';
+import { outlinePoint, type TrackOutline } from '../render/minimap';
+
+export type MinimapCar = {
+  z: number; // track position
+  color: string;
+  player?: boolean; // drawn larger and on top
+};
+
+type MinimapProps = {
+  outline: TrackOutline;
+  cars: MinimapCar[];
+};
+
+const PADDING = 0.08; // of the track's larger side
+
+// The track from above with the start, the finish, checkpoints and every car on it
+export default function Minimap({ outline, cars }: MinimapProps) {
+  const { points, bounds, checkpoints } = outline;
+  const size = Math.max(bounds.maxX - bounds.minX, bounds.maxY - bounds.minY, 1);
+  const pad = size * PADDING;
+  const viewBox = `${bounds.minX - pad} ${bounds.minY - pad} ${bounds.maxX - bounds.minX + pad * 2} ${bounds.maxY - bounds.minY + pad * 2}`;
+  const path = points.map((point, i) => `${i ? 'L' : 'M'}${point.x.toFixed(2)} ${point.y.toFixed(2)}`).join(' ');
+  const start = points[0];
+  const finish = points[points.length - 1];
+  const r = size * 0.03;
+
+  return (
+    <div className="bg-black/40 backdrop-blur-md border border-white/10 rounded-2xl p-3 shadow-xl">
+      <svg viewBox={viewBox} className="w-28 h-28" aria-label="小地图">
+        <path d={path} fill="none" stroke="white" strokeOpacity={0.25} strokeWidth={6} strokeLinecap="round" strokeLinejoin="round" vectorEffect="non-scaling-stroke" />
+        <path d={path} fill="none" stroke="#94A3B8" strokeWidth={2} strokeLinecap="round" strokeLinejoin="round" vectorEffect="non-scaling-stroke" />
+        {checkpoints.map(segment => (
+          <circle key={segment} cx={points[segment].x} cy={points[segment].y} r={r * 0.6} fill="#FBBF24" />
+        ))}
+        <circle cx={finish.x} cy={finish.y} r={r} fill="white" stroke="#0F172A" strokeWidth={r * 0.5} />
+        <circle cx={start.x} cy={start.y} r={r} fill="#10B981" stroke="#0F172A" strokeWidth={r * 0.5} />
+        {[...cars].sort((a, b) => Number(!!a.player) - Number(!!b.player)).map((car, i) => {
+          const { x, y } = outlinePoint(outline, car.z);
+          return <circle key={i} cx={x} cy={y} r={car.player ? r * 1.5 : r} fill={car.color} stroke="white" strokeWidth={r * 0.4} />;
+        })}
+      </svg>
+    </div>
+  );
+}
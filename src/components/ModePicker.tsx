@@ -0,0 +1,36 @@
+import React from 'react';
+import { Car, Globe, Infinity as InfinityIcon, Swords, Timer, Users } from 'lucide-react';
+import type { RaceMode } from '../game/types';
+
+const MODES: { id: RaceMode; label: string; icon: typeof Timer }[] = [
+  { id: 'solo', label: '计时赛', icon: Timer },
+  { id: 'race', label: '竞速赛', icon: Users },
+  { id: 'traffic', label: '车流模式', icon: Car },
+  { id: 'endless', label: '无尽模式', icon: InfinityIcon },
+  { id: 'versus', label: '双人对战', icon: Swords },
+  { id: 'online', label: '联机对战', icon: Globe },
+];
+
+type ModePickerProps = {
+  mode: RaceMode;
+  onChange: (mode: RaceMode) => void;
+};
+
+export default function ModePicker({ mode, onChange }: ModePickerProps) {
+  return (
+    <div className="mb-4 flex flex-wrap justify-center bg-white/5 border border-white/10 rounded-2xl p-1">
+      {MODES.map(({ id, label, icon: Icon }) => (
+        <button
+          key={id}
+          onClick={() => onChange(id)}
+          className={`flex items-center gap-2 px-4 py-2 rounded-xl text-sm font-bold transition-colors ${
+            id === mode ? 'bg-emerald-500 text-slate-900' : 'text-slate-300 hover:bg-white/10'
+          }`}
+        >
+          <Icon className="w-4 h-4" />
+          {label}
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,160 @@
+import React, { useState } from 'react';
+import { Crown, Flag, LogIn, LogOut, Plus } from 'lucide-react';
+import { MAX_PLAYER_NAME_LENGTH } from '../api';
+import { MAX_ROOM_PLAYERS, ROOM_CODE_LENGTH, type OnlineStatus, type Room, type RoomPlayer } from '../online';
+import { ONLINE_COLORS } from '../render/scene';
+import { loadJSON, saveJSON } from '../storage';
+
+const parseName = (data: unknown) => (typeof data === 'string' ? data : null);
+
+const CarDot = ({ slot }: { slot: number }) => (
+  <span className="w-3 h-3 rounded-full border border-white/40 shrink-0" style={{ backgroundColor: ONLINE_COLORS[slot].body }} />
+);
+
+// Finished players by time, then those still driving, then those who retired
+const sortStandings = (players: RoomPlayer[]) =>
+  [...players].sort((a, b) => {
+    const rank = (player: RoomPlayer) => (player.finishTime !== null ? 0 : (player.retired ? 2 : 1));
+    return rank(a) - rank(b) || (a.finishTime ?? 0) - (b.finishTime ?? 0);
+  });
+
+type OnlineStandingsProps = {
+  room: Room;
+  self: RoomPlayer | null;
+};
+
+// Results of the room's race, filled in as players cross the line
+export function OnlineStandings({ room, self }: OnlineStandingsProps) {
+  return (
+    <ol className="mb-8 space-y-1 text-left">
+      {sortStandings(room.players).map((player, i) => (
+        <li
+          key={player.id}
+          className={`flex items-center gap-2 px-3 py-1.5 rounded-xl text-sm ${player.id === self?.id ? 'bg-emerald-100 font-black' : 'font-bold text-slate-600'}`}
+        >
+          <CarDot slot={player.slot} />
+          <span className="flex-1 truncate">{i + 1}. {player.name}</span>
+          <span className="font-mono">
+            {player.finishTime !== null ? `${player.finishTime.toFixed(2)}s` : (player.retired ? '退出' : '比赛中')}
+          </span>
+        </li>
+      ))}
+    </ol>
+  );
+}
+
+type OnlineLobbyProps = {
+  status: OnlineStatus;
+  room: Room | null;
+  self: RoomPlayer | null;
+  error: string | null;
+  onCreate: (name: string) => void;
+  onJoin: (name: string, code: string) => void;
+  onLeave: () => void;
+  onStart: () => void;
+};
+
+// Create or join a room by code, then wait for the host to start
+export default function OnlineLobby({ status, room, self, error, onCreate, onJoin, onLeave, onStart }: OnlineLobbyProps) {
+  const [playerName, setPlayerName] = useState(() => loadJSON('playerName', parseName) ?? '');
+  const [code, setCode] = useState('');
+  const name = playerName.trim();
+
+  const withName = (action: (name: string) => void) => {
+    saveJSON('playerName', name);
+    action(name);
+  };
+
+  if (!room) {
+    return (
+      <div className="mb-6 w-full max-w-xs flex flex-col gap-2">
+        <input
+          value={playerName}
+          maxLength={MAX_PLAYER_NAME_LENGTH}
+          onChange={e => setPlayerName(e.target.value)}
+          placeholder="你的名字"
+          className="px-3 py-2 rounded-xl bg-white/5 border border-white/10 text-white text-sm font-bold outline-none focus:border-emerald-500"
+        />
+        <div className="flex gap-2">
+          <button
+            onClick={() => withName(onCreate)}
+            disabled={!name || status === 'connecting'}
+            className="flex-1 flex items-center justify-center gap-2 bg-emerald-500 text-slate-900 px-3 py-2 rounded-xl text-sm font-bold hover:bg-emerald-400 disabled:opacity-40"
+          >
+            <Plus className="w-4 h-4" />
+            创建房间
+          </button>
+          <form
+            className="flex-1 flex gap-1"
+            onSubmit={e => {
+              e.preventDefault();
+              if (name && code) withName(current => onJoin(current, code));
+            }}
+          >
+            <input
+              value={code}
+              maxLength={ROOM_CODE_LENGTH}
+              onChange={e => setCode(e.target.value.toUpperCase())}
+              placeholder="房间码"
+              className="w-0 flex-1 px-3 py-2 rounded-xl bg-white/5 border border-white/10 text-white text-sm font-mono font-bold uppercase outline-none focus:border-emerald-500"
+            />
+            <button
+              type="submit"
+              disabled={!name || code.length !== ROOM_CODE_LENGTH || status === 'connecting'}
+              className="p-2 rounded-xl bg-white/10 text-white hover:bg-white/20 disabled:opacity-40"
+              aria-label="加入房间"
+            >
+              <LogIn className="w-4 h-4" />
+            </button>
+          </form>
+        </div>
+        {status === 'connecting' && <p className="text-slate-400 text-xs">连接中…</p>}
+        {error && <p className="text-red-400 text-xs font-bold">{error}</p>}
+      </div>
+    );
+  }
+
+  return (
+    <div className="mb-6 w-full max-w-xs bg-white/5 border border-white/10 rounded-2xl p-4 text-white text-left">
+      <div className="flex items-baseline justify-between mb-3">
+        <p className="text-[10px] uppercase tracking-wider opacity-60">房间码</p>
+        <p className="text-3xl font-black font-mono tracking-[0.3em]">{room.code}</p>
+      </div>
+      <p className="flex items-center gap-2 text-xs opacity-60 mb-3">
+        <Flag className="w-3 h-3" />
+        随机赛道 #{room.seed}{room.laps > 1 ? ` · ${room.laps} 圈` : ''}
+      </p>
+      <ul className="space-y-1 mb-4">
+        {room.players.map(player => (
+          <li key={player.id} className={`flex items-center gap-2 text-sm ${player.id === self?.id ? 'font-black' : 'font-bold opacity-80'}`}>
+            <CarDot slot={player.slot} />
+            <span className="flex-1 truncate">{player.name}</span>
+            {player.host && <Crown className="w-4 h-4 text-amber-400" />}
+          </li>
+        ))}
+      </ul>
+      <p className="text-xs opacity-40 mb-3">{room.players.length} / {MAX_ROOM_PLAYERS} 名玩家</p>
+      {room.phase === 'racing' ? (
+        <p className="text-amber-400 text-sm font-bold mb-2">比赛进行中，请等待结束</p>
+      ) : self?.host ? (
+        <button
+          onClick={onStart}
+          className="w-full flex items-center justify-center gap-2 bg-emerald-500 text-slate-900 py-3 rounded-xl font-black hover:bg-emerald-400 mb-2"
+        >
+          <Flag className="w-5 h-5" />
+          开始比赛
+        </button>
+      ) : (
+        <p className="text-slate-400 text-sm mb-2">等待房主开始比赛…</p>
+      )}
+      {error && <p className="text-red-400 text-xs font-bold mb-2">{error}</p>}
+      <button
+        onClick={onLeave}
+        className="w-full flex items-center justify-center gap-2 text-slate-400 text-sm font-bold hover:text-white"
+      >
+        <LogOut className="w-4 h-4" />
+        离开房间
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,94 @@
+import React from 'react';
+import { motion } from 'motion/react';
+import { Award, Lock, X } from 'lucide-react';
+import { ACHIEVEMENTS } from '../achievements';
+import { KILOMETER } from '../game/constants';
+import { SEED_TRACK_PREFIX } from '../game/generator';
+import type { Profile } from '../profile';
+import { TRACKS } from '../tracks';
+
+// Record keys are a track id, with `:<n>laps` appended for multi-lap races
+const recordLabel = (key: string) => {
+  const [, trackId, laps] = key.match(/^(.*?)(?::(\d+)laps)?$/)!;
+  const name = trackId.startsWith(SEED_TRACK_PREFIX)
+    ? `随机赛道 #${trackId.slice(SEED_TRACK_PREFIX.length)}`
+    : TRACKS.find(entry => entry.id === trackId)?.track?.definition.name ?? trackId;
+  return laps ? `${name} · ${laps} 圈` : name;
+};
+
+type ProfileScreenProps = {
+  profile: Profile;
+  onClose: () => void;
+};
+
+export default function ProfileScreen({ profile, onClose }: ProfileScreenProps) {
+  const stats = [
+    { label: '总里程', value: `${(profile.distance / KILOMETER).toFixed(1)} km` },
+    { label: '完成比赛', value: profile.racesFinished },
+    { label: '撞到石头', value: profile.obstaclesHit },
+    { label: '吃到氮气', value: profile.boostsCollected },
+  ];
+  const bestTimes = Object.entries(profile.bestTimes).sort(([a], [b]) => a.localeCompare(b));
+  const unlockedCount = ACHIEVEMENTS.filter(({ id }) => profile.achievements[id]).length;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="absolute inset-0 z-20 bg-slate-900/90 backdrop-blur-xl flex items-center justify-center p-6"
+    >
+      <div className="w-full max-w-md max-h-full overflow-y-auto bg-slate-800/80 border border-white/10 rounded-3xl p-6 text-white text-left">
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-2xl font-black italic">档案</h2>
+          <button onClick={onClose} className="p-2 rounded-xl hover:bg-white/10">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="grid grid-cols-2 gap-2 mb-6">
+          {stats.map(({ label, value }) => (
+            <div key={label} className="bg-white/5 border border-white/10 rounded-2xl p-3">
+              <p className="text-[10px] uppercase tracking-wider opacity-60">{label}</p>
+              <p className="text-xl font-bold tabular-nums">{value}</p>
+            </div>
+          ))}
+        </div>
+
+        <h3 className="text-sm font-bold text-slate-400 mb-2">最佳纪录</h3>
+        {bestTimes.length ? (
+          <ul className="space-y-1 mb-6">
+            {bestTimes.map(([key, time]) => (
+              <li key={key} className="flex justify-between text-sm">
+                <span className="truncate mr-4">{recordLabel(key)}</span>
+                <span className="font-mono">{time.toFixed(2)}s</span>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-slate-500 mb-6">还没有完成过比赛</p>
+        )}
+
+        <h3 className="text-sm font-bold text-slate-400 mb-2">成就 {unlockedCount} / {ACHIEVEMENTS.length}</h3>
+        <ul className="space-y-2">
+          {ACHIEVEMENTS.map(achievement => {
+            const unlockedAt = profile.achievements[achievement.id];
+            return (
+              <li
+                key={achievement.id}
+                className={`flex items-center gap-3 p-3 rounded-2xl border ${unlockedAt ? 'border-amber-400/40 bg-amber-400/10' : 'border-white/10 bg-white/5'}`}
+              >
+                {unlockedAt ? <Award className="w-5 h-5 text-amber-400 shrink-0" /> : <Lock className="w-5 h-5 text-slate-500 shrink-0" />}
+                <div className="flex-1">
+                  <p className={`font-black ${unlockedAt ? '' : 'text-slate-400'}`}>{achievement.name}</p>
+                  <p className="text-xs text-slate-400">{achievement.description}</p>
+                </div>
+                {unlockedAt && <span className="text-[10px] font-mono text-slate-400">{new Date(unlockedAt).toLocaleDateString()}</span>}
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,439 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { motion } from 'motion/react';
+import { FilePlus, FolderOpen, MousePointer2, Play, Plus, Redo2, Save, Scissors, Trash2, Undo2, X } from 'lucide-react';
+import type { AssetManager } from '../assets';
+import {
+  addSection,
+  addSprite,
+  applyEdit,
+  MAX_SPRITE_X,
+  newTrack,
+  redo,
+  removeSection,
+  removeSprite,
+  sectionAt,
+  selectSegment,
+  splitSection,
+  spriteSegments,
+  trackClimb,
+  trackSegments,
+  undo,
+  updateSection,
+  updateSprite,
+  type TrackEditor as Editor,
+} from '../editor';
+import { DEFAULT_ATMOSPHERE } from '../game/atmosphere';
+import { SEGMENT_LENGTH, THEMES } from '../game/constants';
+import { createEngineState } from '../game/engine';
+import { buildSegments, parseTrack, type TrackDefinition } from '../game/track';
+import type { SpriteType } from '../game/types';
+import { DEFAULT_VEHICLE } from '../game/vehicles';
+import { createAtmosphereView, drawScene } from '../render/scene';
+import { createRenderer } from '../render/renderer';
+import { createViewport, fitCanvas } from '../render/viewport';
+import { downloadJSON, readJSONFile } from '../storage';
+import { TRACKS } from '../tracks';
+
+// --- Strip ---
+// Top-down and straightened out: the start is at the bottom, one row per
+// segment, and the width spans the sprites' lateral range.
+
+const STRIP_WIDTH = 240; // px
+const ROW_HEIGHT = 4; // px per segment
+
+const toStripX = (x: number) => ((x + MAX_SPRITE_X) / (2 * MAX_SPRITE_X)) * STRIP_WIDTH;
+const fromStripX = (px: number) => (px / STRIP_WIDTH) * 2 * MAX_SPRITE_X - MAX_SPRITE_X;
+
+const SPRITE_TOOLS: { type: SpriteType; label: string; color: string }[] = [
+  { type: 'obstacle', label: '石头', color: '#94A3B8' },
+  { type: 'boost', label: '氮气', color: '#FACC15' },
+  { type: 'prop', label: '树木', color: '#15803D' },
+];
+
+const spriteColor = (type: SpriteType) => SPRITE_TOOLS.find(tool => tool.type === type)!.color;
+
+type Drag = { index: number; x: number };
+
+type TrackEditorProps = {
+  editor: Editor;
+  onChange: (editor: Editor) => void;
+  assets: AssetManager | null;
+  onTestDrive: (track: TrackDefinition, segment: number) => void;
+  onClose: () => void;
+};
+
+export default function TrackEditor({ editor, onChange, assets, onTestDrive, onClose }: TrackEditorProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const stripRef = useRef<HTMLDivElement>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
+  const [tool, setTool] = useState<SpriteType | null>(null); // null selects instead of placing
+  const [drag, setDrag] = useState<Drag | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // A dragged sprite moves live and becomes one edit when it is dropped
+  const track = drag ? updateSprite(editor.track, drag.index, { x: drag.x }) : editor.track;
+  const total = trackSegments(track);
+  const climb = trackClimb(track);
+  const segments = useMemo(() => buildSegments(track), [track]);
+  const view = useMemo(() => createAtmosphereView(track.atmosphere ?? DEFAULT_ATMOSPHERE), [track.atmosphere]);
+  const { index: sectionIndex, start: sectionStart } = sectionAt(track, editor.segment);
+  const section = track.sections[sectionIndex];
+  const sprite = editor.sprite !== null ? track.sprites[editor.sprite] : null;
+  const themes = Object.keys({ ...THEMES, ...track.themes });
+  const sectionStarts = track.sections.map((_, i) => trackSegments({ ...track, sections: track.sections.slice(0, i) }));
+
+  const edit = (next: TrackDefinition, options?: Parameters<typeof applyEdit>[2]) => {
+    setError(null);
+    onChange(applyEdit(editor, next, options));
+  };
+
+  // --- Preview ---
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const renderer = createRenderer(canvas, 'canvas2d');
+    // The same projection as the race, from the selected segment. Nothing in
+    // it moves, so it's only drawn again when the track, the selection or the
+    // canvas size changes.
+    const game = createEngineState(segments);
+    game.position = editor.segment * SEGMENT_LENGTH;
+    const draw = () => {
+      renderer.begin();
+      drawScene(renderer, createViewport(canvas.width, canvas.height), { game, rivals: [], car: DEFAULT_VEHICLE, view, assets });
+      renderer.end();
+    };
+    const stopFitting = fitCanvas(canvas, 1, draw);
+    draw();
+    return () => {
+      renderer.dispose();
+      stopFitting();
+    };
+  }, [segments, view, editor.segment, assets]);
+
+  // Start with the selected segment in view
+  useEffect(() => {
+    stripRef.current?.scrollTo({ top: (total - editor.segment) * ROW_HEIGHT - stripRef.current.clientHeight / 2 });
+  }, []);
+
+  // --- Keyboard ---
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLSelectElement) return;
+      if ((e.ctrlKey || e.metaKey) && e.code === 'KeyZ') {
+        e.preventDefault();
+        onChange(e.shiftKey ? redo(editor) : undo(editor));
+      } else if ((e.ctrlKey || e.metaKey) && e.code === 'KeyY') {
+        e.preventDefault();
+        onChange(redo(editor));
+      } else if ((e.code === 'Delete' || e.code === 'Backspace') && editor.sprite !== null) {
+        onChange(applyEdit(editor, removeSprite(editor.track, editor.sprite), { sprite: null }));
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [editor, onChange]);
+
+  // --- Strip Input ---
+
+  const stripPoint = (e: React.PointerEvent) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const row = Math.floor((e.clientY - rect.top) / ROW_HEIGHT);
+    return { segment: Math.max(0, Math.min(total - 1, total - 1 - row)), x: fromStripX(e.clientX - rect.left) };
+  };
+
+  const pressStrip = (e: React.PointerEvent<SVGSVGElement>) => {
+    const { segment, x } = stripPoint(e);
+    if (tool) {
+      const next = addSprite(editor.track, tool, segment, x);
+      onChange(applyEdit(selectSegment(editor, segment), next, { sprite: next.sprites.length - 1 }));
+    } else {
+      onChange(selectSegment(editor, segment));
+    }
+  };
+
+  const pressSprite = (e: React.PointerEvent<SVGCircleElement>, index: number, segment: number) => {
+    e.stopPropagation();
+    e.currentTarget.ownerSVGElement?.setPointerCapture(e.pointerId);
+    onChange(selectSegment(editor, segment, index));
+    setDrag({ index, x: editor.track.sprites[index].x });
+  };
+
+  const moveDrag = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (drag) setDrag({ ...drag, x: stripPoint(e).x });
+  };
+
+  const drop = () => {
+    if (!drag) return;
+    setDrag(null);
+    if (drag.x !== editor.track.sprites[drag.index].x) edit(updateSprite(editor.track, drag.index, { x: drag.x }));
+  };
+
+  // --- Files ---
+
+  // Whatever is saved or driven has to load like a bundled track would
+  const validate = () => {
+    try {
+      return parseTrack(JSON.parse(JSON.stringify(editor.track)));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+      return null;
+    }
+  };
+
+  const save = () => {
+    const valid = validate();
+    if (valid) downloadJSON(`${valid.id}.json`, valid);
+  };
+
+  const testDrive = () => {
+    const valid = validate();
+    if (valid) onTestDrive(valid, editor.segment);
+  };
+
+  // Opening a file is an edit too, so it can be undone
+  const replaceTrack = (next: TrackDefinition) => {
+    setError(null);
+    onChange(applyEdit(selectSegment(editor, 0), next, { sprite: null }));
+  };
+
+  const openFile = async (file: File) => {
+    try {
+      // Older files may not level out yet; they only have to by the time they're saved
+      replaceTrack(parseTrack(await readJSONFile(file), { closed: false }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const inputClass = 'px-2 py-1 rounded-lg bg-white/5 border border-white/10 text-sm outline-none focus:border-emerald-500';
+  const buttonClass = 'flex items-center gap-1.5 px-3 py-1.5 rounded-xl bg-white/5 border border-white/10 text-sm font-bold hover:bg-white/10 disabled:opacity-40';
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="absolute inset-0 z-20 bg-slate-900/95 backdrop-blur-xl flex flex-col gap-4 p-4 text-white text-left"
+    >
+      <div className="flex flex-wrap items-center gap-2">
+        <h2 className="text-2xl font-black italic mr-2">赛道编辑器</h2>
+        <input value={editor.track.name} onChange={e => edit({ ...editor.track, name: e.target.value }, { group: 'name' })} placeholder="名称" className={`${inputClass} w-32`} />
+        <input value={editor.track.id} onChange={e => edit({ ...editor.track, id: e.target.value }, { group: 'id' })} placeholder="ID" className={`${inputClass} w-24 font-mono`} />
+        <button onClick={() => replaceTrack(newTrack())} className={buttonClass}><FilePlus className="w-4 h-4" />新建</button>
+        <select
+          value=""
+          onChange={e => {
+            const definition = TRACKS.find(entry => entry.id === e.target.value)?.track?.definition;
+            if (definition) replaceTrack(definition);
+          }}
+          className={`${inputClass} py-1.5`}
+        >
+          <option value="" disabled>内置赛道…</option>
+          {TRACKS.filter(entry => entry.track).map(entry => <option key={entry.id} value={entry.id}>{entry.track!.definition.name}</option>)}
+        </select>
+        <button onClick={() => fileRef.current?.click()} className={buttonClass}><FolderOpen className="w-4 h-4" />打开</button>
+        <button onClick={save} className={buttonClass}><Save className="w-4 h-4" />保存</button>
+        <button onClick={() => onChange(undo(editor))} disabled={!editor.past.length} title="撤销 (Ctrl+Z)" className={buttonClass}><Undo2 className="w-4 h-4" /></button>
+        <button onClick={() => onChange(redo(editor))} disabled={!editor.future.length} title="重做 (Ctrl+Shift+Z)" className={buttonClass}><Redo2 className="w-4 h-4" /></button>
+        <button onClick={onClose} className="ml-auto p-2 rounded-xl hover:bg-white/10"><X className="w-5 h-5" /></button>
+        <input
+          ref={fileRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={e => {
+            const file = e.target.files?.[0];
+            if (file) openFile(file);
+            e.target.value = '';
+          }}
+        />
+      </div>
+      {error && <p className="text-xs font-mono text-amber-300">{error}</p>}
+
+      <div className="flex-1 min-h-0 flex gap-4">
+        <div ref={stripRef} className="shrink-0 overflow-y-auto rounded-2xl border border-white/10" style={{ width: STRIP_WIDTH + 16 }}>
+          <svg
+            width={STRIP_WIDTH}
+            height={total * ROW_HEIGHT}
+            onPointerDown={pressStrip}
+            onPointerMove={moveDrag}
+            onPointerUp={drop}
+            onPointerCancel={() => setDrag(null)}
+            className={`block touch-none ${tool ? 'cursor-crosshair' : 'cursor-pointer'}`}
+          >
+            {segments.map(segment => {
+              const y = (total - 1 - segment.index) * ROW_HEIGHT;
+              return (
+                <g key={segment.index}>
+                  <rect x={0} y={y} width={STRIP_WIDTH} height={ROW_HEIGHT} fill={segment.color.grass} />
+                  <rect x={toStripX(-1)} y={y} width={toStripX(1) - toStripX(-1)} height={ROW_HEIGHT} fill={segment.color.road} />
+                </g>
+              );
+            })}
+            {track.sections.map((entry, i) => {
+              const y = (total - sectionStarts[i]) * ROW_HEIGHT;
+              const label = [entry.curve ? `${entry.curve > 0 ? '↱' : '↰'}${Math.abs(entry.curve)}` : '', entry.elevation ? `${entry.elevation > 0 ? '▲' : '▼'}${Math.abs(entry.elevation)}` : ''].join(' ');
+              return (
+                <g key={i} pointerEvents="none">
+                  <line x1={0} x2={STRIP_WIDTH} y1={y} y2={y} stroke="white" strokeOpacity={0.6} />
+                  {i === sectionIndex && (
+                    <rect x={1} y={y - entry.length * ROW_HEIGHT} width={STRIP_WIDTH - 2} height={entry.length * ROW_HEIGHT} fill="none" stroke="#10B981" strokeWidth={2} />
+                  )}
+                  <text x={4} y={y - 4} fontSize={10} fill="white" fontWeight="bold">{label}</text>
+                </g>
+              );
+            })}
+            <line
+              x1={0}
+              x2={STRIP_WIDTH}
+              y1={(total - 0.5 - editor.segment) * ROW_HEIGHT}
+              y2={(total - 0.5 - editor.segment) * ROW_HEIGHT}
+              stroke="#10B981"
+              strokeWidth={2}
+              pointerEvents="none"
+            />
+            {track.sprites.map((placement, index) => spriteSegments(placement, total).map(segment => (
+              <circle
+                key={`${index}:${segment}`}
+                cx={toStripX(placement.x)}
+                cy={(total - 0.5 - segment) * ROW_HEIGHT}
+                r={index === editor.sprite ? 5 : 4}
+                fill={spriteColor(placement.type)}
+                stroke={index === editor.sprite ? '#10B981' : 'white'}
+                strokeWidth={index === editor.sprite ? 2 : 1}
+                onPointerDown={e => pressSprite(e, index, segment)}
+                className="cursor-ew-resize"
+              />
+            )))}
+          </svg>
+        </div>
+
+        <div className="flex-1 min-w-0 overflow-y-auto space-y-4">
+          <canvas ref={canvasRef} className="block w-full aspect-video rounded-2xl bg-black" />
+
+          <div className="flex flex-wrap items-center gap-2">
+            <button onClick={() => setTool(null)} className={`${buttonClass} ${tool === null ? 'border-emerald-500' : ''}`}>
+              <MousePointer2 className="w-4 h-4" />选择
+            </button>
+            {SPRITE_TOOLS.map(entry => (
+              <button key={entry.type} onClick={() => setTool(entry.type)} className={`${buttonClass} ${tool === entry.type ? 'border-emerald-500' : ''}`}>
+                <span className="w-3 h-3 rounded-full" style={{ backgroundColor: entry.color }} />
+                {entry.label}
+              </button>
+            ))}
+            <button
+              onClick={testDrive}
+              className="ml-auto flex items-center gap-2 bg-emerald-500 text-slate-900 px-4 py-2 rounded-xl text-sm font-black hover:bg-emerald-400"
+            >
+              <Play className="w-4 h-4 fill-current" />
+              从第 {editor.segment} 段试驾
+            </button>
+          </div>
+
+          <div className="bg-white/5 border border-white/10 rounded-2xl p-4 space-y-3">
+            <div className="flex items-center justify-between">
+              <p className="font-black">第 {sectionIndex + 1} / {track.sections.length} 段 <span className="text-xs font-mono text-slate-400">（{sectionStart}–{sectionStart + section.length - 1}，共 {total} 格）</span></p>
+              <div className="flex gap-2">
+                <button onClick={() => edit(splitSection(editor.track, editor.segment))} disabled={editor.segment === sectionStart} title="从选中处拆分" className={buttonClass}><Scissors className="w-4 h-4" /></button>
+                <button onClick={() => edit(addSection(editor.track, sectionIndex))} title="在后面添加一段" className={buttonClass}><Plus className="w-4 h-4" /></button>
+                <button onClick={() => edit(removeSection(editor.track, sectionIndex))} title="删除此段" className={buttonClass}><Trash2 className="w-4 h-4" /></button>
+              </div>
+            </div>
+            <label className="flex items-center gap-3 text-sm">
+              <span className="w-12 text-slate-400">长度</span>
+              <input
+                type="number"
+                min={1}
+                value={section.length}
+                onChange={e => edit(updateSection(editor.track, sectionIndex, { length: Number(e.target.value) || 1 }), { group: `length:${sectionIndex}` })}
+                className={`${inputClass} w-24 font-mono`}
+              />
+            </label>
+            <label className="flex items-center gap-3 text-sm">
+              <span className="w-12 text-slate-400">弯道</span>
+              <input
+                type="range"
+                min={-8}
+                max={8}
+                step={0.5}
+                value={section.curve ?? 0}
+                onChange={e => edit(updateSection(editor.track, sectionIndex, { curve: Number(e.target.value) }), { group: `curve:${sectionIndex}` })}
+                className="flex-1 accent-emerald-500"
+              />
+              <span className="w-16 text-right font-mono">{section.curve ?? 0}</span>
+            </label>
+            <label className="flex items-center gap-3 text-sm">
+              <span className="w-12 text-slate-400">高度差</span>
+              <input
+                type="range"
+                min={-6000}
+                max={6000}
+                step={250}
+                value={section.elevation ?? 0}
+                onChange={e => edit(updateSection(editor.track, sectionIndex, { elevation: Number(e.target.value) }), { group: `elevation:${sectionIndex}` })}
+                className="flex-1 accent-emerald-500"
+              />
+              <span className="w-16 text-right font-mono">{section.elevation ?? 0}</span>
+            </label>
+            {climb !== 0 && (
+              <p className="text-xs text-amber-300">终点比起点{climb > 0 ? '高' : '低'} {Math.abs(climb)}：各段高度差加起来要为 0 才能保存和试驾</p>
+            )}
+            <label className="flex items-center gap-3 text-sm">
+              <span className="w-12 text-slate-400">配色</span>
+              <select
+                value={section.theme ?? 'default'}
+                onChange={e => edit(updateSection(editor.track, sectionIndex, { theme: e.target.value === 'default' ? undefined : e.target.value }))}
+                className={inputClass}
+              >
+                {themes.map(theme => <option key={theme} value={theme}>{theme}</option>)}
+              </select>
+            </label>
+          </div>
+
+          {sprite && editor.sprite !== null && (
+            <div className="bg-white/5 border border-white/10 rounded-2xl p-4 space-y-3">
+              <div className="flex items-center justify-between">
+                <p className="flex items-center gap-2 font-black">
+                  <span className="w-3 h-3 rounded-full" style={{ backgroundColor: spriteColor(sprite.type) }} />
+                  {SPRITE_TOOLS.find(entry => entry.type === sprite.type)!.label}
+                  {sprite.every && <span className="text-xs font-normal text-slate-400">每 {sprite.every} 格重复</span>}
+                </p>
+                <button onClick={() => edit(removeSprite(editor.track, editor.sprite!), { sprite: null })} title="删除 (Delete)" className={buttonClass}><Trash2 className="w-4 h-4" /></button>
+              </div>
+              <label className="flex items-center gap-3 text-sm">
+                <span className="w-12 text-slate-400">横向</span>
+                <input
+                  type="range"
+                  min={-MAX_SPRITE_X}
+                  max={MAX_SPRITE_X}
+                  step={0.05}
+                  value={sprite.x}
+                  onChange={e => edit(updateSprite(editor.track, editor.sprite!, { x: Number(e.target.value) }), { group: `x:${editor.sprite}` })}
+                  className="flex-1 accent-emerald-500"
+                />
+                <span className="w-16 text-right font-mono">{sprite.x.toFixed(2)}</span>
+              </label>
+              <label className="flex items-center gap-3 text-sm">
+                <span className="w-12 text-slate-400">位置</span>
+                <input
+                  type="number"
+                  min={0}
+                  max={total - 1}
+                  value={sprite.segment}
+                  onChange={e => edit(updateSprite(editor.track, editor.sprite!, { segment: Number(e.target.value) || 0 }), { group: `segment:${editor.sprite}` })}
+                  className={`${inputClass} w-24 font-mono`}
+                />
+              </label>
+            </div>
+          )}
+
+          <p className="text-xs text-slate-500">
+            左侧是俯视的赛道，起点在最下方。点击选择一格，选中石头、氮气或树木后点击放置，左右拖动已放置的物体调整位置。
+          </p>
+        </div>
+      </div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,91 @@
+import React, { useState } from 'react';
+import { AlertTriangle, Check, Dices, Link } from 'lucide-react';
+import { MAX_SEED_LENGTH, normalizeSeed, randomSeed } from '../game/random';
+import { TRACKS } from '../tracks';
+
+export const RANDOM_TRACK_ID = 'random';
+
+type TrackPickerProps = {
+  trackId: string;
+  seed: string;
+  onTrackChange: (trackId: string) => void;
+  onSeedChange: (seed: string) => void;
+};
+
+export default function TrackPicker({ trackId, seed, onTrackChange, onSeedChange }: TrackPickerProps) {
+  const [copied, setCopied] = useState(false);
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch (err) {
+      console.error('Failed to copy track link', err);
+    }
+  };
+
+  const buttonClass = (selected: boolean) => `flex items-center gap-2 px-5 py-3 rounded-2xl font-bold text-sm border transition-colors ${
+    selected
+      ? 'bg-white text-slate-900 border-white'
+      : 'bg-white/5 text-white border-white/10 hover:bg-white/10'
+  } disabled:opacity-40 disabled:cursor-not-allowed`;
+
+  return (
+    <div className="mb-10 flex flex-col items-center gap-4 max-w-md">
+      <div className="flex flex-wrap justify-center gap-3">
+        {TRACKS.map(entry => (
+          <button
+            key={entry.id}
+            disabled={!entry.track}
+            onClick={() => onTrackChange(entry.id)}
+            title={entry.error ?? undefined}
+            className={buttonClass(entry.id === trackId)}
+          >
+            {!entry.track && <AlertTriangle className="w-4 h-4 text-amber-400" />}
+            {entry.track?.definition.name ?? entry.id}
+          </button>
+        ))}
+        <button onClick={() => onTrackChange(RANDOM_TRACK_ID)} className={buttonClass(trackId === RANDOM_TRACK_ID)}>
+          <Dices className="w-4 h-4" />
+          随机赛道
+        </button>
+      </div>
+
+      {trackId === RANDOM_TRACK_ID && (
+        <div className="flex items-center gap-2 bg-white/5 border border-white/10 rounded-2xl p-2 pl-4">
+          <span className="text-[10px] uppercase tracking-wider text-slate-400">Seed</span>
+          <input
+            value={seed}
+            maxLength={MAX_SEED_LENGTH}
+            onChange={e => onSeedChange(normalizeSeed(e.target.value))}
+            className="w-32 bg-transparent font-mono text-white outline-none"
+            spellCheck={false}
+          />
+          <button
+            onClick={() => onSeedChange(randomSeed())}
+            title="换一个种子"
+            className="p-2 rounded-xl text-slate-300 hover:bg-white/10"
+          >
+            <Dices className="w-4 h-4" />
+          </button>
+          <button
+            onClick={copyLink}
+            title="复制分享链接"
+            className="p-2 rounded-xl text-slate-300 hover:bg-white/10"
+          >
+            {copied ? <Check className="w-4 h-4 text-emerald-400" /> : <Link className="w-4 h-4" />}
+          </button>
+        </div>
+      )}
+
+      {TRACKS.some(entry => entry.error) && (
+        <div className="text-left text-xs font-mono text-amber-300 bg-amber-500/10 border border-amber-500/20 rounded-xl p-3 space-y-1">
+          {TRACKS.filter(entry => entry.error).map(entry => (
+            <p key={entry.id}>赛道 {entry.id} 加载失败: {entry.error}</p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,113 @@
+import React from 'react';
+import { ChevronLeft, ChevronRight, Flag, Pause, Wrench } from 'lucide-react';
+import { MAX_DAMAGE } from '../game/collision';
+import type { EngineState, Failure } from '../game/engine';
+import { raceProgress } from '../game/laps';
+import type { Player } from '../game/types';
+import type { TouchZone } from '../input';
+import type { SplitLayout } from '../render/viewport';
+
+export type PlayerHud = {
+  speed: number; // km/h
+  lap: number; // 1-based
+  progress: number; // percent of the race
+  damage: number;
+  status: 'racing' | 'finished' | Failure;
+};
+
+export const toPlayerHud = (state: EngineState): PlayerHud => ({
+  speed: Math.round(state.speed / 10),
+  lap: Math.min(state.lap + 1, state.settings.laps),
+  progress: Math.min(100, Math.round((raceProgress(state.lap, state.position, state.trackLength) / (state.trackLength * state.settings.laps)) * 100)),
+  damage: Math.round(state.damage),
+  status: state.finished ? 'finished' : (state.failure ?? 'racing'),
+});
+
+export const PLAYER_NAMES = ['玩家 1', '玩家 2'];
+const PLAYER_ACCENTS = ['text-red-400', 'text-blue-400'];
+const STATUS_LABELS: Record<Exclude<PlayerHud['status'], 'racing'>, string> = {
+  finished: '已完成',
+  timeout: '时间到',
+  wrecked: '车辆报废',
+};
+
+type VersusHudProps = {
+  players: PlayerHud[];
+  layout: SplitLayout;
+  laps: number;
+  controls: boolean; // show the touch zones
+  onTouch: (pointerId: number, zone: TouchZone, player: Player) => void;
+  onPause: () => void;
+};
+
+// One HUD and set of touch zones per half of the split screen, laid out like the viewports
+export default function VersusHud({ players, layout, laps, controls, onTouch, onPause }: VersusHudProps) {
+  return (
+    <div className={`absolute inset-0 flex ${layout === 'columns' ? 'flex-row' : 'flex-col'}`}>
+      {players.map((hud, i) => {
+        const player = i as Player;
+        return (
+          <div key={player} className={`relative flex-1 ${i === 0 ? (layout === 'columns' ? 'border-r' : 'border-b') : ''} border-black/60`}>
+            <div className="absolute top-4 left-4 bg-black/40 backdrop-blur-md border border-white/10 rounded-2xl p-3 text-white shadow-xl min-w-[140px] pointer-events-none">
+              <p className={`text-xs font-black uppercase tracking-wider ${PLAYER_ACCENTS[i]}`}>{PLAYER_NAMES[i]}</p>
+              <p className="text-2xl font-bold tabular-nums">{hud.speed} <span className="text-xs font-normal opacity-60">KM/H</span></p>
+              <p className="flex items-center gap-2 text-xs tabular-nums opacity-80">
+                <Flag className="w-3 h-3" />
+                {laps > 1 ? `第 ${hud.lap} / ${laps} 圈 · ` : ''}{hud.progress}%
+              </p>
+              <div className="flex items-center gap-2 mt-1">
+                <Wrench className="w-3 h-3 opacity-60" />
+                <div className="flex-1 h-1.5 bg-white/10 rounded-full overflow-hidden">
+                  <div
+                    className={`h-full ${hud.damage > MAX_DAMAGE * 0.7 ? 'bg-red-500' : 'bg-emerald-500'}`}
+                    style={{ width: `${(hud.damage / MAX_DAMAGE) * 100}%` }}
+                  />
+                </div>
+              </div>
+            </div>
+
+            {hud.status !== 'racing' && (
+              <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
+                <p className="bg-black/60 text-white px-6 py-3 rounded-2xl text-xl font-black italic">{STATUS_LABELS[hud.status]}</p>
+              </div>
+            )}
+
+            {controls && hud.status === 'racing' && (
+              <div className="absolute inset-0 flex">
+                <div
+                  className="flex-1 active:bg-white/5 flex items-center justify-start p-4"
+                  onPointerDown={e => onTouch(e.pointerId, 'left', player)}
+                >
+                  <ChevronLeft className="w-10 h-10 text-white/20" />
+                </div>
+                <div
+                  className="flex-1 active:bg-white/5 flex items-center justify-end p-4"
+                  onPointerDown={e => onTouch(e.pointerId, 'right', player)}
+                >
+                  <ChevronRight className="w-10 h-10 text-white/20" />
+                </div>
+                <div
+                  className="absolute bottom-4 left-1/2 -translate-x-1/2 w-16 h-16 rounded-full bg-black/30 border border-white/10 active:bg-red-500/40 flex items-center justify-center"
+                  onPointerDown={e => {
+                    e.stopPropagation();
+                    onTouch(e.pointerId, 'brake', player);
+                  }}
+                >
+                  <span className="text-white/60 text-xs font-bold">刹车</span>
+                </div>
+              </div>
+            )}
+          </div>
+        );
+      })}
+
+      <button
+        onClick={onPause}
+        className="absolute top-4 left-1/2 -translate-x-1/2 p-3 bg-black/40 backdrop-blur-md border border-white/10 rounded-2xl text-white shadow-xl hover:bg-black/60"
+        aria-label="暂停"
+      >
+        <Pause className="w-5 h-5" />
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,95 @@
+import { ACCEL, BOOST_DURATION, CAMERA_DEPTH, DRAW_DISTANCE, OFF_ROAD_DECEL } from './game/constants';
+import type { EngineState } from './game/engine';
+import { DEFAULT_VEHICLE, findVehicle } from './game/vehicles';
+import type { SceneStats } from './render/scene';
+
+// --- Tuning ---
+// Live overrides for a few physics and rendering constants, for trying values
+// out without a rebuild. Acceleration, off-road deceleration and boost
+// duration are set as the roadster's values and scale every other car by the
+// same factor, so each car keeps its character. Replays only store the car's
+// id, so races on tuned physics would play back differently and don't set
+// records.
+
+// Keyed by the constants' names, so an exported JSON file reads as the values
+// to put in `src/game/constants.ts`
+export type Tuning = {
+  ACCEL: number;
+  OFF_ROAD_DECEL: number;
+  BOOST_DURATION: number; // seconds
+  DRAW_DISTANCE: number; // segments
+  CAMERA_DEPTH: number;
+};
+
+export const DEFAULT_TUNING: Tuning = { ACCEL, OFF_ROAD_DECEL, BOOST_DURATION, DRAW_DISTANCE, CAMERA_DEPTH };
+
+export type TuningControl = { key: keyof Tuning; label: string; min: number; max: number; step: number };
+
+export const TUNING_CONTROLS: TuningControl[] = [
+  { key: 'ACCEL', label: '加速度', min: ACCEL / 4, max: ACCEL * 3, step: 10 },
+  { key: 'OFF_ROAD_DECEL', label: '草地减速', min: OFF_ROAD_DECEL * 3, max: 0, step: 10 },
+  { key: 'BOOST_DURATION', label: '氮气时长', min: 0.5, max: 8, step: 0.1 },
+  { key: 'DRAW_DISTANCE', label: '视距', min: 50, max: 600, step: 10 },
+  { key: 'CAMERA_DEPTH', label: '镜头深度', min: 0.4, max: 1.6, step: 0.05 },
+];
+
+export const isTuned = (tuning: Tuning) =>
+  (Object.keys(DEFAULT_TUNING) as (keyof Tuning)[]).some(key => tuning[key] !== DEFAULT_TUNING[key]);
+
+// Swaps a race's car for the tuned version of the same model, also in the middle of a race
+export const applyTuning = (state: EngineState, tuning: Tuning) => {
+  const vehicle = findVehicle(state.vehicle.id) ?? DEFAULT_VEHICLE;
+  state.vehicle = {
+    ...vehicle,
+    accel: vehicle.accel * (tuning.ACCEL / ACCEL),
+    offRoadDecel: vehicle.offRoadDecel * (tuning.OFF_ROAD_DECEL / OFF_ROAD_DECEL),
+    boostDuration: vehicle.boostDuration * (tuning.BOOST_DURATION / BOOST_DURATION),
+  };
+};
+
+export const parseShowDebug = (data: unknown): boolean => {
+  if (typeof data !== 'boolean') throw new Error('invalid debug overlay setting');
+  return data;
+};
+
+// --- Profiler ---
+
+const PROFILE_FRAMES = 120; // two seconds at 60 fps
+
+export type FrameSample = SceneStats & {
+  frameTime: number; // ms since the previous frame
+  update: number; // ms spent simulating
+  render: number; // ms spent drawing; WebGL work the GPU does later isn't in here
+};
+
+export type Profiler = {
+  record: (sample: FrameSample) => void;
+  samples: () => FrameSample[]; // a copy, oldest first
+};
+
+export const createProfiler = (): Profiler => {
+  const samples: FrameSample[] = [];
+  return {
+    record: sample => {
+      samples.push(sample);
+      if (samples.length > PROFILE_FRAMES) samples.shift();
+    },
+    samples: () => [...samples],
+  };
+};
+
+// Averages over the recorded frames
+export const summarize = (samples: FrameSample[]) => {
+  const average = (value: (sample: FrameSample) => number) =>
+    samples.length ? samples.reduce((sum, sample) => sum + value(sample), 0) / samples.length : 0;
+  const frameTime = average(sample => sample.frameTime);
+  return {
+    fps: frameTime ? 1000 / frameTime : 0,
+    frameTime,
+    worstFrame: Math.max(0, ...samples.map(sample => sample.frameTime)),
+    update: average(sample => sample.update),
+    render: average(sample => sample.render),
+    segments: average(sample => sample.segments),
+    sprites: average(sample => sample.sprites),
+  };
+};
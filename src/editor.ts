@@ -0,0 +1,166 @@
+import { SEGMENT_LENGTH } from './game/constants';
+import type { EngineState } from './game/engine';
+import { TRACK_FORMAT_VERSION, type TrackDefinition, type TrackSection, type TrackSpritePlacement } from './game/track';
+import type { SpriteType } from './game/types';
+
+// --- Track Editor ---
+// Edits are pure functions from one track definition to the next, so the
+// editor's history is just the list of definitions it has been through. Every
+// edit keeps the definition valid for `parseTrack`, which is also the format
+// tracks are saved and loaded in, except for elevation: the sections' height
+// changes have to add back up to 0 before the track can be saved or driven.
+
+export const MIN_TRACK_SEGMENTS = 20; // the start and finish areas take 19
+export const MAX_SPRITE_X = 3; // trees sit out to 2.5 on the bundled tracks
+
+const MAX_HISTORY = 100;
+
+export type TrackEditor = {
+  past: TrackDefinition[];
+  track: TrackDefinition;
+  future: TrackDefinition[];
+  segment: number; // selected, shown in the preview and test-driven from
+  sprite: number | null; // selected placement, an index into `track.sprites`
+  group: string | null; // consecutive edits in the same group, like dragging a slider, undo as one
+};
+
+export const newTrack = (): TrackDefinition => ({
+  version: TRACK_FORMAT_VERSION,
+  id: 'custom',
+  name: '我的赛道',
+  sections: [{ length: 100 }, { length: 100, curve: 2 }, { length: 100 }, { length: 100, curve: -2, elevation: 2000 }, { length: 100, elevation: -2000 }],
+  sprites: [],
+});
+
+export const trackSegments = (track: TrackDefinition) => track.sections.reduce((sum, section) => sum + section.length, 0);
+
+// How much higher the finish is than the start; `parseTrack` only accepts 0
+export const trackClimb = (track: TrackDefinition) => track.sections.reduce((sum, section) => sum + (section.elevation ?? 0), 0);
+
+// The section `segment` is in, and the segment it starts at
+export const sectionAt = (track: TrackDefinition, segment: number) => {
+  let start = 0;
+  for (let index = 0; index < track.sections.length; index++) {
+    const { length } = track.sections[index];
+    if (segment < start + length || index === track.sections.length - 1) return { index, start };
+    start += length;
+  }
+  return { index: 0, start: 0 };
+};
+
+// Drops whatever a shorter track no longer has room for
+const fitPlacements = (track: TrackDefinition): TrackDefinition => {
+  const total = trackSegments(track);
+  return {
+    ...track,
+    checkpoints: track.checkpoints?.filter(segment => segment < total),
+    sprites: track.sprites
+      .filter(sprite => sprite.segment < total)
+      .map(sprite => (sprite.until !== undefined && sprite.until > total ? { ...sprite, until: total } : sprite)),
+  };
+};
+
+// --- Edits ---
+
+export const updateSection = (track: TrackDefinition, index: number, patch: Partial<TrackSection>): TrackDefinition => {
+  const sections = track.sections.map((section, i) => (i === index ? { ...section, ...patch } : section));
+  const length = sections[index].length;
+  // Never shorter than the start and finish areas need
+  const others = trackSegments({ ...track, sections }) - length;
+  sections[index] = { ...sections[index], length: Math.max(1, Math.round(length), MIN_TRACK_SEGMENTS - others) };
+  return fitPlacements({ ...track, sections });
+};
+
+// Starts a new section at `segment`, which keeps the curve, theme and the
+// elevation still to come; the height already climbed stays in the first half
+export const splitSection = (track: TrackDefinition, segment: number): TrackDefinition => {
+  const { index, start } = sectionAt(track, segment);
+  const section = track.sections[index];
+  const at = segment - start;
+  if (at <= 0 || at >= section.length) return track;
+  const elevation = section.elevation ?? 0;
+  const head: TrackSection = { ...section, length: at, elevation: Math.round(elevation * (at / section.length)) };
+  const tail: TrackSection = { ...section, length: section.length - at, elevation: elevation - head.elevation! };
+  return { ...track, sections: [...track.sections.slice(0, index), head, tail, ...track.sections.slice(index + 1)] };
+};
+
+export const removeSection = (track: TrackDefinition, index: number): TrackDefinition => {
+  if (track.sections.length <= 1 || trackSegments(track) - track.sections[index].length < MIN_TRACK_SEGMENTS) return track;
+  return fitPlacements({ ...track, sections: track.sections.filter((_, i) => i !== index) });
+};
+
+export const addSection = (track: TrackDefinition, after: number): TrackDefinition => ({
+  ...track,
+  sections: [...track.sections.slice(0, after + 1), { length: 50 }, ...track.sections.slice(after + 1)],
+});
+
+const clampX = (x: number) => Math.round(Math.max(-MAX_SPRITE_X, Math.min(MAX_SPRITE_X, x)) * 100) / 100;
+
+export const addSprite = (track: TrackDefinition, type: SpriteType, segment: number, x: number): TrackDefinition => ({
+  ...track,
+  sprites: [...track.sprites, { type, segment, x: clampX(x) }],
+});
+
+export const updateSprite = (track: TrackDefinition, index: number, patch: Partial<TrackSpritePlacement>): TrackDefinition => ({
+  ...track,
+  sprites: track.sprites.map((sprite, i) => {
+    if (i !== index) return sprite;
+    const next = { ...sprite, ...patch, x: clampX(patch.x ?? sprite.x) };
+    const segment = Math.max(0, Math.min(trackSegments(track) - 1, Math.round(next.segment)));
+    // A repeating placement keeps its extent when it moves
+    const until = next.until === undefined ? undefined : Math.min(trackSegments(track), Math.max(segment, next.until + segment - sprite.segment));
+    return { ...next, segment, ...(until === undefined ? {} : { until }) };
+  }),
+});
+
+export const removeSprite = (track: TrackDefinition, index: number): TrackDefinition => ({
+  ...track,
+  sprites: track.sprites.filter((_, i) => i !== index),
+});
+
+// Segments a placement puts its sprite on
+export const spriteSegments = (sprite: TrackSpritePlacement, total: number) => {
+  if (!sprite.every) return [sprite.segment];
+  const segments: number[] = [];
+  for (let n = sprite.segment; n < (sprite.until ?? total); n += sprite.every) segments.push(n);
+  return segments;
+};
+
+// --- History ---
+
+export const openEditor = (track: TrackDefinition): TrackEditor => ({ past: [], track, future: [], segment: 0, sprite: null, group: null });
+
+// Keeps the selection pointing at something that exists
+const select = (editor: TrackEditor, segment: number, sprite: number | null): TrackEditor => ({
+  ...editor,
+  segment: Math.max(0, Math.min(trackSegments(editor.track) - 1, segment)),
+  sprite: sprite !== null && sprite < editor.track.sprites.length ? sprite : null,
+});
+
+export const selectSegment = (editor: TrackEditor, segment: number, sprite: number | null = null) => select(editor, segment, sprite);
+
+export const applyEdit = (editor: TrackEditor, track: TrackDefinition, { sprite = editor.sprite, group = null }: { sprite?: number | null; group?: string | null } = {}): TrackEditor => {
+  if (track === editor.track) return editor;
+  const past = group !== null && group === editor.group ? editor.past : [...editor.past, editor.track].slice(-MAX_HISTORY);
+  return select({ ...editor, past, track, future: [], group }, editor.segment, sprite);
+};
+
+export const undo = (editor: TrackEditor): TrackEditor => {
+  if (!editor.past.length) return editor;
+  const track = editor.past[editor.past.length - 1];
+  return select({ ...editor, past: editor.past.slice(0, -1), track, future: [editor.track, ...editor.future], group: null }, editor.segment, editor.sprite);
+};
+
+export const redo = (editor: TrackEditor): TrackEditor => {
+  if (!editor.future.length) return editor;
+  const [track, ...future] = editor.future;
+  return select({ ...editor, past: [...editor.past, editor.track], track, future, group: null }, editor.segment, editor.sprite);
+};
+
+// --- Test Drive ---
+
+// Puts a fresh race state at `segment`, with the checkpoints behind it already passed
+export const startFrom = (state: EngineState, segment: number) => {
+  state.position = segment * SEGMENT_LENGTH;
+  state.splits = state.checkpoints.filter(position => position <= state.position).map(() => 0);
+};
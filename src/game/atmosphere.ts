@@ -0,0 +1,151 @@
+import { FOG_DENSITY } from './constants';
+import type { ColorSet } from './types';
+
+// --- Atmosphere ---
+// Time of day and weather for a race. An atmosphere doesn't replace a track's
+// section palettes; it tints them, sets the sky and fog, and adds particle or
+// lighting overlays on top.
+
+export type AtmosphereId = 'day' | 'dusk' | 'night' | 'rain' | 'snow';
+
+export type Tint = { color: string; amount: number }; // amount 0 (none) to 1 (solid)
+
+export type Atmosphere = {
+  name: string;
+  sky: [top: string, horizon: string];
+  fog: string;
+  fogDensity: number;
+  tint?: Tint; // applied to every palette color
+  ground?: Tint; // applied to grass on top of `tint`
+  particles?: 'rain' | 'snow';
+  darkness?: number; // 0 to 1, outside the headlight cone
+};
+
+export const ATMOSPHERES: Record<AtmosphereId, Atmosphere> = {
+  day: {
+    name: '白天',
+    sky: ['#60A5FA', '#BFDBFE'],
+    fog: '#DBEAFE',
+    fogDensity: FOG_DENSITY,
+  },
+  dusk: {
+    name: '黄昏',
+    sky: ['#7C3AED', '#FDBA74'],
+    fog: '#FDBA74',
+    fogDensity: FOG_DENSITY,
+    tint: { color: '#F97316', amount: 0.25 },
+  },
+  night: {
+    name: '夜晚',
+    sky: ['#020617', '#1E293B'],
+    fog: '#0F172A',
+    fogDensity: FOG_DENSITY * 1.5,
+    tint: { color: '#1E1B4B', amount: 0.55 },
+    darkness: 0.7,
+  },
+  rain: {
+    name: '雨天',
+    sky: ['#475569', '#94A3B8'],
+    fog: '#94A3B8',
+    fogDensity: FOG_DENSITY * 2,
+    tint: { color: '#334155', amount: 0.3 },
+    particles: 'rain',
+  },
+  snow: {
+    name: '雪天',
+    sky: ['#94A3B8', '#E2E8F0'],
+    fog: '#E2E8F0',
+    fogDensity: FOG_DENSITY * 2,
+    tint: { color: '#E2E8F0', amount: 0.15 },
+    ground: { color: '#F8FAFC', amount: 0.8 },
+    particles: 'snow',
+  },
+};
+
+export const ATMOSPHERE_IDS = Object.keys(ATMOSPHERES) as AtmosphereId[];
+
+export const DEFAULT_ATMOSPHERE: AtmosphereId = 'day';
+
+// Exponential fog for the n-th segment ahead: 0 is clear, 1 is fully fogged
+export const fogAmount = (n: number, drawDistance: number, density: number) => {
+  const distance = n / drawDistance;
+  return 1 - 1 / Math.exp(distance * distance * density);
+};
+
+// --- Colors ---
+
+const parseHex = (color: string) => {
+  const match = /^#([0-9a-f]{6})$/i.exec(color);
+  if (!match) return null;
+  const value = parseInt(match[1], 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+};
+
+// Blends `a` toward `b` by `t`. Colors that aren't #rrggbb are returned unchanged.
+export const mixColor = (a: string, b: string, t: number) => {
+  const from = parseHex(a);
+  const to = parseHex(b);
+  if (!from || !to || t <= 0) return a;
+  const mixed = from.map((channel, i) => Math.round(channel + (to[i] - channel) * Math.min(t, 1)));
+  return `#${mixed.map(channel => channel.toString(16).padStart(2, '0')).join('')}`;
+};
+
+const applyTint = (color: string, tint?: Tint) => (tint ? mixColor(color, tint.color, tint.amount) : color);
+
+const FOG_STEPS = 32; // fog is quantized so shaded palettes can be cached
+
+export type Palette = (colors: ColorSet, fog: number) => ColorSet;
+
+// Returns a cached lookup from a segment's palette and fog amount to the colors
+// to draw it with under `atmosphere`.
+export const createPalette = (atmosphere: Atmosphere): Palette => {
+  const cache = new Map<ColorSet, ColorSet[]>();
+
+  return (colors, fog) => {
+    const step = Math.round(Math.max(0, Math.min(1, fog)) * FOG_STEPS);
+    let shades = cache.get(colors);
+    if (!shades) cache.set(colors, shades = []);
+    if (!shades[step]) {
+      const shade = (color: string, extra?: Tint) => mixColor(applyTint(applyTint(color, atmosphere.tint), extra), atmosphere.fog, step / FOG_STEPS);
+      shades[step] = {
+        road: shade(colors.road),
+        grass: shade(colors.grass, atmosphere.ground),
+        rumble: shade(colors.rumble),
+        lane: colors.lane && shade(colors.lane),
+      };
+    }
+    return shades[step];
+  };
+};
+
+// --- Particles ---
+// Screen-space rain and snow, in coordinates normalized to the canvas size.
+
+export type Particle = { x: number; y: number; speed: number; size: number; drift: number };
+
+const PARTICLE_COUNTS = { rain: 160, snow: 120 };
+const MAX_PARTICLE_STEP = 0.1; // seconds, so a long frame doesn't teleport the weather
+
+const spawnParticle = (kind: 'rain' | 'snow', y = Math.random()): Particle => ({
+  x: Math.random(),
+  y,
+  speed: kind === 'rain' ? 1.5 + Math.random() : 0.1 + Math.random() * 0.15,
+  size: kind === 'rain' ? 0.02 + Math.random() * 0.03 : 1 + Math.random() * 2.5,
+  drift: kind === 'rain' ? 0.1 : (Math.random() - 0.5) * 0.1,
+});
+
+export const createParticles = (kind: 'rain' | 'snow') =>
+  Array.from({ length: PARTICLE_COUNTS[kind] }, () => spawnParticle(kind));
+
+// Moves particles on by one frame; they fall faster and stream sideways with the car's speed and steering
+export const updateParticles = (particles: Particle[], kind: 'rain' | 'snow', frameTime: number, speedRatio: number, steer: number) => {
+  const dt = Math.min(Math.max(frameTime, 0), MAX_PARTICLE_STEP);
+  for (let i = 0; i < particles.length; i++) {
+    const p = particles[i];
+    p.y += p.speed * (1 + speedRatio) * dt;
+    p.x += (p.drift - steer * speedRatio * 0.3) * dt;
+    if (p.y > 1) particles[i] = spawnParticle(kind, 0);
+    else if (p.x < 0) p.x += 1;
+    else if (p.x > 1) p.x -= 1;
+  }
+};
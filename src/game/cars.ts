@@ -0,0 +1,223 @@
+import { ACCEL, CAR_WIDTH, LANES, MAX_SPEED, PLAYER_Z, ROAD_WIDTH, SEGMENT_LENGTH } from './constants';
+import { applyDamage, CAR_LENGTH, overlaps } from './collision';
+import type { EngineState } from './engine';
+import { raceProgress } from './laps';
+import { createRng } from './random';
+import type { CarColors, RaceMode } from './types';
+
+// --- AI Cars ---
+// Opponents race the player to the finish; traffic just drives along the loop
+// and gets in the way. Both keep to LANES and dodge obstacles, deterministically.
+
+export type CarKind = 'opponent' | 'traffic';
+
+export type Car = {
+  id: number;
+  name: string;
+  kind: CarKind;
+  colors: CarColors;
+  z: number; // track position, same frame as EngineState.position
+  lap: number; // laps completed (opponents only)
+  x: number; // -1 to 1 (offset from center)
+  speed: number;
+  topSpeed: number;
+  lane: number; // lane the car is steering toward
+  laneCooldown: number; // seconds until the car may change lanes again
+  finishTime: number | null;
+};
+
+export type Standing = { name: string; time: number; isPlayer: boolean; estimated: boolean };
+
+const CAR_COLORS: CarColors[] = [
+  { body: '#3B82F6', outline: '#1E3A8A', roof: '#DBEAFE' },
+  { body: '#A855F7', outline: '#581C87', roof: '#F3E8FF' },
+  { body: '#10B981', outline: '#064E3B', roof: '#D1FAE5' },
+  { body: '#F97316', outline: '#7C2D12', roof: '#FFEDD5' },
+  { body: '#EC4899', outline: '#831843', roof: '#FCE7F3' },
+  { body: '#FACC15', outline: '#713F12', roof: '#FEF9C3' },
+];
+const OPPONENT_NAMES = ['阿飞', '小闪', '疾风', '雷霆', '流星'];
+
+export const OPPONENT_COUNT = 4;
+const TRAFFIC_DENSITY = 1 / 25; // cars per segment
+const LOOKAHEAD = 12; // segments
+const LANE_CHANGE_RATE = 1.5; // road widths per second
+const LANE_COOLDOWN = 1; // seconds
+const HIT_WIDTH = CAR_WIDTH / ROAD_WIDTH;
+const BUMP_SLOWDOWN = 0.8;
+
+export const laneX = (lane: number) => ((lane + 0.5) * 2) / LANES - 1;
+
+export const createCars = (mode: RaceMode, seed: string, trackLength: number): Car[] => {
+  const rng = createRng(`${seed}:${mode}`);
+
+  if (mode === 'race') {
+    return Array.from({ length: OPPONENT_COUNT }, (_, i) => {
+      const lane = i % LANES;
+      return {
+        id: i,
+        name: OPPONENT_NAMES[i % OPPONENT_NAMES.length],
+        kind: 'opponent',
+        colors: CAR_COLORS[i % CAR_COLORS.length],
+        // Staggered starting grid ahead of the player
+        z: (Math.floor(i / 2) + 1) * 3 * SEGMENT_LENGTH,
+        lap: 0,
+        x: laneX(lane),
+        speed: 0,
+        topSpeed: MAX_SPEED * rng.range(0.86, 0.98),
+        lane,
+        laneCooldown: 0,
+        finishTime: null,
+      };
+    });
+  }
+
+  if (mode === 'traffic') {
+    const count = Math.floor((trackLength / SEGMENT_LENGTH) * TRAFFIC_DENSITY);
+    return Array.from({ length: count }, (_, i) => {
+      const lane = rng.int(0, LANES - 1);
+      const topSpeed = MAX_SPEED * rng.range(0.3, 0.55);
+      return {
+        id: i,
+        name: `Traffic ${i + 1}`,
+        kind: 'traffic',
+        colors: rng.pick(CAR_COLORS),
+        z: (i + 1) * (trackLength / (count + 1)),
+        lap: 0,
+        x: laneX(lane),
+        speed: topSpeed,
+        topSpeed,
+        lane,
+        laneCooldown: 0,
+        finishTime: null,
+      };
+    });
+  }
+
+  return [];
+};
+
+// Distance to the first obstacle or slower car in `lane` ahead of `car`, in world units (Infinity if clear)
+const laneClearance = (state: EngineState, car: Car, lane: number) => {
+  const x = laneX(lane);
+  let nearest = Infinity;
+
+  for (let n = 1; n <= LOOKAHEAD; n++) {
+    // Cars are drawn (and the player collides) PLAYER_Z ahead of their position
+    const z = car.z + PLAYER_Z + n * SEGMENT_LENGTH;
+    const segment = state.segments[Math.floor(z / SEGMENT_LENGTH) % state.segments.length];
+    if (segment.sprites.some(s => s.type === 'obstacle' && overlaps(x, HIT_WIDTH, s))) {
+      nearest = n * SEGMENT_LENGTH;
+      break;
+    }
+  }
+
+  const consider = (z: number, otherX: number, speed: number) => {
+    const gap = (z - car.z + state.trackLength) % state.trackLength;
+    if (gap > 0 && gap < LOOKAHEAD * SEGMENT_LENGTH && speed < car.speed && Math.abs(otherX - x) < HIT_WIDTH * 1.5) {
+      nearest = Math.min(nearest, gap);
+    }
+  };
+  consider(state.position, state.playerX, state.speed);
+  for (const other of state.cars) {
+    if (other !== car && other.finishTime === null) consider(other.z, other.x, other.speed);
+  }
+  return nearest;
+};
+
+const steerCar = (state: EngineState, car: Car, dt: number) => {
+  car.laneCooldown = Math.max(0, car.laneCooldown - dt);
+  if (car.laneCooldown === 0 && laneClearance(state, car, car.lane) < Infinity) {
+    let best = car.lane;
+    let bestClearance = laneClearance(state, car, car.lane);
+    for (const lane of [car.lane - 1, car.lane + 1]) {
+      if (lane < 0 || lane >= LANES) continue;
+      const clearance = laneClearance(state, car, lane);
+      if (clearance > bestClearance) {
+        best = lane;
+        bestClearance = clearance;
+      }
+    }
+    if (best !== car.lane) {
+      car.lane = best;
+      car.laneCooldown = LANE_COOLDOWN;
+    }
+  }
+
+  const targetX = laneX(car.lane);
+  const maxMove = LANE_CHANGE_RATE * dt;
+  car.x += Math.max(-maxMove, Math.min(maxMove, targetX - car.x));
+};
+
+// Bumping into a car slows whoever is behind down to just under the speed of
+// the car in front, and damages the player by the difference in speed
+const collideWithPlayer = (state: EngineState, car: Car) => {
+  if (Math.abs(car.x - state.playerX) >= HIT_WIDTH) return;
+  // Signed distance the car is ahead of the player, the short way round the lap seam
+  const ahead = (((car.z - state.position) % state.trackLength) + state.trackLength) % state.trackLength;
+  const gap = ahead > state.trackLength / 2 ? ahead - state.trackLength : ahead;
+  if (Math.abs(gap) >= CAR_LENGTH) return;
+
+  const impact = Math.abs(state.speed - car.speed) / MAX_SPEED;
+  if (gap > 0 && state.speed > car.speed) {
+    state.speed = car.speed * BUMP_SLOWDOWN;
+  } else if (gap <= 0 && car.speed > state.speed) {
+    car.speed = state.speed * BUMP_SLOWDOWN;
+  } else {
+    return;
+  }
+  state.events.push('car');
+  applyDamage(state, 'car', impact);
+};
+
+export const updateCars = (state: EngineState, dt: number) => {
+  for (const car of state.cars) {
+    if (car.finishTime !== null) continue;
+
+    car.speed = Math.min(car.speed + ACCEL * dt, car.topSpeed);
+    steerCar(state, car, dt);
+    car.z += car.speed * dt;
+
+    if (car.kind === 'traffic') {
+      car.z %= state.trackLength;
+    } else if (car.z >= state.trackLength) {
+      car.z -= state.trackLength;
+      car.lap++;
+      if (car.lap >= state.settings.laps) {
+        car.finishTime = state.time;
+        continue;
+      }
+    }
+
+    collideWithPlayer(state, car);
+  }
+};
+
+// --- Standings ---
+
+// 1-based race position of the player among opponents (traffic doesn't count)
+export const racePosition = (state: EngineState) => {
+  const progress = raceProgress(state.lap, state.position, state.trackLength);
+  return 1 + state.cars.filter(car =>
+    car.kind === 'opponent' && (car.finishTime !== null || raceProgress(car.lap, car.z, state.trackLength) > progress)
+  ).length;
+};
+
+export const opponentCount = (state: EngineState) => state.cars.filter(car => car.kind === 'opponent').length;
+
+// Final order once the player has finished; opponents still on course get an
+// estimated time from their remaining distance at current speed.
+export const getStandings = (state: EngineState, playerName: string): Standing[] => {
+  const standings: Standing[] = [{ name: playerName, time: state.time, isPlayer: true, estimated: false }];
+  for (const car of state.cars) {
+    if (car.kind !== 'opponent') continue;
+    if (car.finishTime !== null) {
+      standings.push({ name: car.name, time: car.finishTime, isPlayer: false, estimated: false });
+    } else {
+      const distance = state.settings.laps * state.trackLength - raceProgress(car.lap, car.z, state.trackLength);
+      const remaining = distance / Math.max(car.speed, 1);
+      standings.push({ name: car.name, time: state.time + remaining, isPlayer: false, estimated: true });
+    }
+  }
+  return standings.sort((a, b) => a.time - b.time);
+};
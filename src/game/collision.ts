@@ -0,0 +1,103 @@
+import { CAR_WIDTH, MAX_SPEED, PLAYER_Z, ROAD_WIDTH, SEGMENT_LENGTH } from './constants';
+import type { EngineState } from './engine';
+import type { Segment, Sprite } from './types';
+
+// --- Collision & Damage ---
+// Lateral positions are in road half-widths (playerX units); hitboxes are
+// centered on their x. The player car sits PLAYER_Z ahead of the camera
+// position, where it is drawn, and is CAR_LENGTH long. Each step sweeps the
+// distance travelled so fast cars can't tunnel through a sprite.
+
+export const CAR_LENGTH = SEGMENT_LENGTH;
+export const CAR_HALF_WIDTH = CAR_WIDTH / ROAD_WIDTH / 2;
+export const MAX_DAMAGE = 100;
+
+const CRASH_COOLDOWN = 0.5; // seconds before props and obstacles can hurt again
+const SPIN_DURATION = 1.2; // seconds
+const SPIN_SPEED = 0.6; // fraction of top speed above which a hit spins the car out
+const KNOCKBACK = 1.5; // road half-widths per second
+const KNOCKBACK_DAMPING = 5; // per second
+const OBSTACLE_SLOWDOWN = 0.5;
+const PROP_SLOWDOWN = 0.15;
+
+const DAMAGE = {
+  obstacle: { base: 6, speed: 18 },
+  prop: { base: 15, speed: 35 },
+  car: { base: 4, speed: 12 },
+};
+
+export const isSpinning = (state: EngineState) => state.spinTimer > 0;
+
+// Runs down the crash timers and slides the car sideways after a knock
+export const updateCrash = (state: EngineState, dt: number) => {
+  state.playerX += state.knockback * dt;
+  state.knockback *= Math.max(0, 1 - KNOCKBACK_DAMPING * dt);
+  state.spinTimer = Math.max(0, state.spinTimer - dt);
+  state.crashCooldown = Math.max(0, state.crashCooldown - dt);
+};
+
+export const spriteHalfWidth = (sprite: Sprite) => sprite.w / ROAD_WIDTH / 2;
+
+export const overlaps = (x: number, halfWidth: number, sprite: Sprite) =>
+  Math.abs(x - sprite.x) < halfWidth + spriteHalfWidth(sprite);
+
+// Adds damage scaled by impact speed (0 to 1); wrecks the car at MAX_DAMAGE
+export const applyDamage = (state: EngineState, kind: keyof typeof DAMAGE, impact: number) => {
+  const { base, speed } = DAMAGE[kind];
+  state.damage = Math.min(MAX_DAMAGE, state.damage + base + speed * Math.max(0, Math.min(1, impact)));
+  if (state.damage >= MAX_DAMAGE && !state.failure) {
+    state.failure = 'wrecked';
+    state.events.push('wrecked');
+  }
+};
+
+// Pushes the car away from `fromX` and, for a hard enough hit, spins it out
+const crash = (state: EngineState, fromX: number, impact: number, spinThreshold: number) => {
+  state.knockback = (state.playerX >= fromX ? 1 : -1) * KNOCKBACK * Math.max(0.3, impact);
+  if (impact > spinThreshold) state.spinTimer = SPIN_DURATION;
+  state.crashCooldown = CRASH_COOLDOWN;
+};
+
+// Sprites whose segment start lies within the car's body this step
+const spritesInReach = (state: EngineState, travelled: number) => {
+  const front = state.position + PLAYER_Z + CAR_LENGTH / 2;
+  const back = front - CAR_LENGTH - travelled;
+  const first = Math.ceil(back / SEGMENT_LENGTH);
+  const last = Math.floor(front / SEGMENT_LENGTH);
+  const hits: { segment: Segment; sprite: Sprite }[] = [];
+  for (let n = first; n <= last; n++) {
+    const segment = state.segments[((n % state.segments.length) + state.segments.length) % state.segments.length];
+    for (const sprite of segment.sprites) {
+      if (overlaps(state.playerX, CAR_HALF_WIDTH, sprite)) hits.push({ segment, sprite });
+    }
+  }
+  return hits;
+};
+
+export const collideWithSprites = (state: EngineState, travelled: number) => {
+  for (const { segment, sprite } of spritesInReach(state, travelled)) {
+    if (sprite.type === 'boost') {
+      state.boostTimer = state.vehicle.boostDuration;
+    } else if (state.crashCooldown > 0) {
+      continue;
+    } else {
+      const impact = state.speed / MAX_SPEED;
+      if (sprite.type === 'obstacle') {
+        state.speed *= OBSTACLE_SLOWDOWN;
+        crash(state, sprite.x, impact, SPIN_SPEED);
+        applyDamage(state, 'obstacle', impact);
+      } else {
+        // Trees don't give way: most of the speed is lost and the car always spins
+        state.speed *= PROP_SLOWDOWN;
+        crash(state, sprite.x, impact, 0);
+        applyDamage(state, 'prop', impact);
+      }
+    }
+    state.events.push(sprite.type);
+    // Pickups and rocks are knocked off the track until the next lap
+    if (sprite.type !== 'prop') {
+      segment.sprites = segment.sprites.filter(s => s !== sprite);
+      state.collected.push({ segment, sprite });
+    }
+  }
+};
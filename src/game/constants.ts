@@ -0,0 +1,41 @@
+import type { ColorSet } from './types';
+
+export const ROAD_WIDTH = 2000;
+export const SEGMENT_LENGTH = 200;
+export const RUMBLE_LENGTH = 3;
+export const LANES = 3;
+export const DRAW_DISTANCE = 300;
+export const CAMERA_HEIGHT = 1000;
+export const CAMERA_DEPTH = 0.8; // z-depth of camera
+export const FOG_DENSITY = 5;
+export const PLAYER_Z = CAMERA_HEIGHT * CAMERA_DEPTH; // distance from the camera to the player's car
+export const CAR_WIDTH = ROAD_WIDTH * 0.15; // world units, matches the on-screen player car at PLAYER_Z
+export const MAX_SPEED = SEGMENT_LENGTH / (1 / 60); // segments per second
+export const ACCEL = MAX_SPEED / 5;
+export const BREAKING = -MAX_SPEED;
+export const DECEL = -MAX_SPEED / 5;
+export const OFF_ROAD_DECEL = -MAX_SPEED / 2;
+export const OFF_ROAD_LIMIT = MAX_SPEED / 4;
+export const BOOST_DURATION = 3; // seconds a boost pad lasts
+export const KILOMETER = 36_000; // world units, so that the speedometer's speed / 10 reads in km/h
+
+export const COLORS = {
+  LIGHT: { road: '#6B7280', grass: '#10B981', rumble: '#F9FAFB', lane: '#F9FAFB' },
+  DARK: { road: '#4B5563', grass: '#059669', rumble: '#111827' },
+  START: { road: '#FFFFFF', grass: '#FFFFFF', rumble: '#FFFFFF' },
+  FINISH: { road: '#000000', grass: '#000000', rumble: '#000000' },
+  CHECKPOINT: { road: '#FBBF24', grass: '#FBBF24', rumble: '#F59E0B' },
+} satisfies Record<string, ColorSet>;
+
+// Alternating light/dark palettes that track sections can pick by name
+export const THEMES = {
+  default: { light: COLORS.LIGHT, dark: COLORS.DARK },
+  desert: {
+    light: { road: '#A8A29E', grass: '#FCD34D', rumble: '#FFFBEB', lane: '#FFFBEB' },
+    dark: { road: '#8C8580', grass: '#F59E0B', rumble: '#B91C1C' },
+  },
+  autumn: {
+    light: { road: '#6B7280', grass: '#F97316', rumble: '#F9FAFB', lane: '#F9FAFB' },
+    dark: { road: '#4B5563', grass: '#EA580C', rumble: '#7C2D12' },
+  },
+} satisfies Record<string, { light: ColorSet; dark: ColorSet }>;
@@ -0,0 +1,144 @@
+import { COLORS, DRAW_DISTANCE, RUMBLE_LENGTH, SEGMENT_LENGTH, THEMES } from './constants';
+import type { EngineState } from './engine';
+import type { RaceSettings } from './laps';
+import { createRng, type Rng } from './random';
+import { DEFAULT_SPRITE_SOURCES, easeInOut, SPRITE_SIZES } from './track';
+import type { Segment, SpriteType } from './types';
+
+// --- Endless Mode ---
+// The road is a fixed ring of segments that is rewritten just ahead of the
+// camera, so `segment.index` and every `% segments.length` lookup work exactly
+// as on a looping track. The player's position wraps around the ring like a
+// lap; the distance driven is kept separately. Generation is seeded, so a run
+// is as deterministic as a race on a fixed track.
+
+export const ENDLESS_RING = DRAW_DISTANCE + 100; // segments, the last 100 are behind the camera
+export const ENDLESS_SETTINGS: RaceSettings = { laps: 1, timeLimit: false };
+
+const AHEAD = DRAW_DISTANCE + 10; // segments kept generated in front of the camera
+const START_STRAIGHT = 30;
+const START_SEGMENTS = 10;
+const LEVEL_SEGMENTS = 1500; // distance between difficulty levels
+const MAX_CURVE = 8;
+const BOOST_EVERY = 60; // average gap between boosts, in segments
+const PROP_EVERY = 5;
+const SCORE_UNIT = SEGMENT_LENGTH / 2; // world units per point
+
+export type EndlessStream = {
+  seed: string;
+  rng: Rng;
+  generated: number; // absolute index of the next segment to write
+  height: number; // road height at the end of the generated road
+  section: { remaining: number; length: number; curve: number; elevation: number; startY: number; theme: string };
+  wraps: number; // times the position has wrapped around the ring
+};
+
+// Difficulty at `segment` (absolute index); keeps ramping up with every level
+export const endlessDifficulty = (segment: number) => {
+  const level = segment / LEVEL_SEGMENTS;
+  return {
+    level: Math.floor(level) + 1,
+    maxCurve: Math.min(MAX_CURVE, 2 + level),
+    obstacleEvery: Math.max(5, 20 / (1 + level / 2)),
+    topSpeedScale: Math.min(1.4, 1 + level * 0.05), // of the vehicle's own top speed
+  };
+};
+
+export const endlessDistance = (state: EngineState) =>
+  state.endless ? state.endless.wraps * state.trackLength + state.position : state.position;
+
+export const endlessScore = (state: EngineState) => Math.floor(endlessDistance(state) / SCORE_UNIT);
+
+export const parseScore = (data: unknown): number => {
+  if (!Number.isInteger(data) || (data as number) < 0) throw new Error('invalid score');
+  return data as number;
+};
+
+// --- Generation ---
+
+const nextSection = (stream: EndlessStream) => {
+  const { rng, generated } = stream;
+  const difficulty = endlessDifficulty(generated);
+  const length = rng.int(25, 80);
+  const kind = rng.pick(['straight', 'curve', 'hill', 'curve', 'curvyHill'] as const);
+  // Bias back toward ground level so the road never drifts too far up or down
+  const elevation = kind === 'hill' || kind === 'curvyHill' ? Math.round((rng.range(-4000, 4000) - stream.height / 2) / 100) * 100 : 0;
+  const curve = kind === 'curve' || kind === 'curvyHill'
+    ? Math.round(rng.range(1, difficulty.maxCurve) * 10) / 10 * (rng.chance(0.5) ? 1 : -1)
+    : 0;
+  const theme = rng.chance(0.1) ? rng.pick(Object.keys(THEMES)) : stream.section.theme;
+  stream.section = { remaining: length, length, curve, elevation, startY: stream.height, theme };
+  stream.height += elevation;
+};
+
+const addSprite = (segment: Segment, type: SpriteType, x: number) => {
+  segment.sprites.push({ source: DEFAULT_SPRITE_SOURCES[type], x, ...SPRITE_SIZES[type], type });
+};
+
+// Writes the next segment of road into its slot in the ring
+const generateSegment = (stream: EndlessStream, segments: Segment[]) => {
+  const n = stream.generated;
+  if (stream.section.remaining === 0) nextSection(stream);
+  const { section, rng } = stream;
+  const theme = THEMES[section.theme as keyof typeof THEMES];
+  const i = section.length - section.remaining;
+
+  const segment = segments[n % segments.length];
+  segment.p1.y = section.startY + section.elevation * easeInOut(i / section.length);
+  segment.p2.y = section.startY + section.elevation * easeInOut((i + 1) / section.length);
+  segment.curve = section.curve;
+  segment.color = n < START_SEGMENTS ? COLORS.START : (Math.floor(n / RUMBLE_LENGTH) % 2 ? theme.dark : theme.light);
+  segment.checkpoint = false;
+  segment.sprites = [];
+
+  if (n >= START_STRAIGHT) {
+    if (rng.chance(1 / endlessDifficulty(n).obstacleEvery)) addSprite(segment, 'obstacle', Math.round(rng.range(-0.8, 0.8) * 100) / 100);
+    else if (rng.chance(1 / BOOST_EVERY)) addSprite(segment, 'boost', Math.round(rng.range(-0.5, 0.5) * 100) / 100);
+  }
+  if (n % PROP_EVERY === 0) {
+    addSprite(segment, 'prop', Math.round((-1.5 - rng.next() * 2) * 100) / 100);
+    addSprite(segment, 'prop', Math.round((1.5 + rng.next() * 2) * 100) / 100);
+  }
+
+  section.remaining--;
+  stream.generated++;
+};
+
+export const createEndlessTrack = (seed: string) => {
+  const stream: EndlessStream = {
+    seed,
+    rng: createRng(`${seed}:endless`),
+    generated: 0,
+    height: 0,
+    section: { remaining: START_STRAIGHT, length: START_STRAIGHT, curve: 0, elevation: 0, startY: 0, theme: 'default' },
+    wraps: 0,
+  };
+  const segments: Segment[] = Array.from({ length: ENDLESS_RING }, (_, n) => ({
+    index: n,
+    p1: { x: 0, y: 0, z: n * SEGMENT_LENGTH, screenX: 0, screenY: 0, screenW: 0 },
+    p2: { x: 0, y: 0, z: (n + 1) * SEGMENT_LENGTH, screenX: 0, screenY: 0, screenW: 0 },
+    curve: 0,
+    sprites: [],
+    color: COLORS.START,
+    checkpoint: false,
+    clip: 0,
+  }));
+  while (stream.generated < ENDLESS_RING) generateSegment(stream, segments);
+  return { segments, stream };
+};
+
+// Wraps the position around the ring and keeps the road ahead generated.
+// Called by the engine every step in place of the lap logic.
+export const streamEndless = (state: EngineState) => {
+  const stream = state.endless;
+  if (!stream) return;
+  if (state.position >= state.trackLength) {
+    state.position -= state.trackLength;
+    stream.wraps++;
+    // Knocked-off sprites don't come back, their slots are rewritten anyway
+    state.collected = [];
+  }
+  const current = stream.wraps * state.segments.length + Math.floor(state.position / SEGMENT_LENGTH);
+  while (stream.generated < current + AHEAD) generateSegment(stream, state.segments);
+  state.topSpeed = state.vehicle.topSpeed * endlessDifficulty(current).topSpeedScale;
+};
@@ -0,0 +1,207 @@
+import { BREAKING, DECEL, SEGMENT_LENGTH } from './constants';
+import { updateCars, type Car } from './cars';
+import { collideWithSprites, isSpinning, updateCrash } from './collision';
+import { streamEndless, type EndlessStream } from './endless';
+import { createDrift, updateHandling, type DriftState } from './handling';
+import { completeLap, DEFAULT_RACE_SETTINGS, findCheckpoints, initialTimeRemaining, passCheckpoints, type LapRecord, type RaceSettings } from './laps';
+import type { Segment, Sprite } from './types';
+import { DEFAULT_VEHICLE, type Vehicle } from './vehicles';
+
+// --- Simulation ---
+// Headless and deterministic: no React, DOM or wall-clock access in here, so the
+// same inputs always produce the same race no matter the display refresh rate.
+
+// Bump whenever a change to the physics would make old replays play back differently
+export const ENGINE_VERSION = 5;
+
+export const STEP = 1 / 60; // fixed timestep, in seconds
+export const MAX_FRAME_TIME = 0.25; // longest frame we try to catch up on
+const CLOCK_EPSILON = 1e-9; // seconds
+
+const MAX_PLAYER_X = 2;
+
+export type Input = {
+  steer: number; // -1 (left) to 1 (right)
+  throttle: number; // 0 to 1
+  brake: number; // 0 to 1
+  drift: number; // 0 or 1, held
+};
+
+export const NO_INPUT: Input = { steer: 0, throttle: 0, brake: 0, drift: 0 };
+
+export type EngineEvent = 'obstacle' | 'boost' | 'prop' | 'car' | 'drift' | 'miniboost' | 'checkpoint' | 'lap' | 'finish' | 'timeout' | 'wrecked';
+
+export type Failure = 'timeout' | 'wrecked';
+
+export type EngineState = {
+  segments: Segment[];
+  trackLength: number;
+  settings: RaceSettings;
+  position: number; // distance into the current lap
+  playerX: number;
+  speed: number;
+  topSpeed: number; // without boost, ramps up in endless mode
+  steer: number; // wheel position, -1 to 1, lags behind the input
+  vehicle: Vehicle;
+  drift: DriftState;
+  boostTimer: number;
+  damage: number; // 0 to MAX_DAMAGE
+  knockback: number; // sideways slide after a crash, road half-widths per second
+  spinTimer: number; // seconds of spin-out left, no control meanwhile
+  crashCooldown: number;
+  cars: Car[];
+  tick: number;
+  time: number; // simulated seconds since the start
+  lap: number; // laps completed
+  lapStart: number; // time the current lap started
+  lapRecords: LapRecord[]; // completed laps
+  checkpoints: number[]; // track positions of the checkpoint lines
+  splits: number[]; // checkpoint splits of the current lap
+  timeRemaining: number; // time-limit mode only, Infinity otherwise
+  collected: { segment: Segment; sprite: Sprite }[]; // picked up this lap, back on the track next lap
+  finished: boolean;
+  failure: Failure | null; // the race ended early
+  endless: EndlessStream | null; // streams the road in endless mode, which has no laps or finish
+  events: EngineEvent[]; // raised during the most recent step
+};
+
+export const createEngineState = (
+  segments: Segment[],
+  cars: Car[] = [],
+  settings = DEFAULT_RACE_SETTINGS,
+  vehicle = DEFAULT_VEHICLE,
+  endless: EndlessStream | null = null,
+): EngineState => {
+  const state: EngineState = {
+    segments,
+    trackLength: segments.length * SEGMENT_LENGTH,
+    settings,
+    position: 0,
+    playerX: 0,
+    speed: 0,
+    topSpeed: vehicle.topSpeed,
+    steer: 0,
+    vehicle,
+    drift: createDrift(),
+    boostTimer: 0,
+    damage: 0,
+    knockback: 0,
+    spinTimer: 0,
+    crashCooldown: 0,
+    cars,
+    tick: 0,
+    time: 0,
+    lap: 0,
+    lapStart: 0,
+    lapRecords: [],
+    checkpoints: [],
+    splits: [],
+    timeRemaining: Infinity,
+    collected: [],
+    finished: false,
+    failure: null,
+    endless,
+    events: [],
+  };
+  state.checkpoints = findCheckpoints(state);
+  state.timeRemaining = initialTimeRemaining(state);
+  return state;
+};
+
+export const findSegment = (segments: Segment[], z: number) =>
+  segments[Math.floor(z / SEGMENT_LENGTH) % segments.length];
+
+// Advances the state by exactly one STEP. Mutates and returns `state`.
+export const step = (state: EngineState, input: Input): EngineState => {
+  state.events = [];
+  if (state.finished || state.failure || !state.segments.length) return state;
+
+  const dt = STEP;
+  const { vehicle } = state;
+  const targetSpeed = state.boostTimer > 0 ? state.topSpeed * vehicle.boost : state.topSpeed;
+  // A spinning car doesn't respond to the controls
+  const control = isSpinning(state) ? 0 : 1;
+  const throttle = Math.max(0, Math.min(1, input.throttle)) * control;
+  const brake = Math.max(0, Math.min(1, input.brake)) * control;
+  const steer = Math.max(-1, Math.min(1, input.steer)) * control;
+  const drift = input.drift > 0 ? control : 0;
+
+  if (brake > 0) {
+    state.speed += BREAKING * brake * dt;
+  } else if (throttle > 0 && state.speed < targetSpeed) {
+    state.speed = Math.min(state.speed + vehicle.accel * throttle * dt, targetSpeed);
+  } else {
+    // Coasting, or running above top speed once a boost wears off
+    state.speed += DECEL * dt;
+    if (throttle > 0) state.speed = Math.max(state.speed, targetSpeed);
+  }
+  state.speed = Math.max(0, state.speed);
+
+  // Off-road penalty
+  if (Math.abs(state.playerX) > 1 && state.speed > vehicle.offRoadLimit) {
+    state.speed += vehicle.offRoadDecel * dt;
+  }
+
+  updateHandling(state, { steer, throttle, brake, drift }, dt);
+  updateCrash(state, dt);
+  state.playerX = Math.max(-MAX_PLAYER_X, Math.min(MAX_PLAYER_X, state.playerX));
+
+  const travelled = state.speed * dt;
+  state.position += travelled;
+  state.tick++;
+  state.time = state.tick * STEP;
+
+  passCheckpoints(state);
+  if (state.endless) {
+    streamEndless(state);
+  } else if (state.position >= state.trackLength) {
+    completeLap(state);
+    if (state.lap >= state.settings.laps) {
+      state.finished = true;
+      state.events.push('finish');
+      return state;
+    }
+    state.position -= state.trackLength;
+    for (const { segment, sprite } of state.collected) segment.sprites.push(sprite);
+    state.collected = [];
+    state.events.push('lap');
+  }
+
+  if (state.settings.timeLimit) {
+    state.timeRemaining -= dt;
+    if (state.timeRemaining <= 0) {
+      state.timeRemaining = 0;
+      state.failure = 'timeout';
+      state.events.push('timeout');
+      return state;
+    }
+  }
+
+  collideWithSprites(state, travelled);
+
+  if (state.boostTimer > 0) state.boostTimer -= dt;
+
+  updateCars(state, dt);
+
+  return state;
+};
+
+// --- Fixed-Step Clock ---
+
+export type FixedStepClock = { accumulator: number };
+
+export const createClock = (): FixedStepClock => ({ accumulator: 0 });
+
+// Feeds a variable frame time into the clock and runs as many fixed steps as
+// have accumulated. Returns the number of steps taken.
+export const advanceClock = (clock: FixedStepClock, frameTime: number, onStep: () => void) => {
+  clock.accumulator += Math.min(Math.max(frameTime, 0), MAX_FRAME_TIME);
+  let steps = 0;
+  // Frame times that add up to a whole number of steps can fall a rounding error short of it
+  while (clock.accumulator >= STEP - CLOCK_EPSILON) {
+    onStep();
+    clock.accumulator -= STEP;
+    steps++;
+  }
+  return steps;
+};
@@ -0,0 +1,36 @@
+import type { GameState } from './types';
+
+// --- Game State Machine ---
+// Which screen the app is on. A race starts with a countdown, can be paused
+// at any point (and resumes through a shorter countdown), and ends finished or
+// failed. The simulation only steps while PLAYING, so race time is simulated
+// time and stands still whenever the race does.
+
+export const COUNTDOWN_TIME = 3; // seconds before the start
+export const RESUME_TIME = 2; // seconds of countdown after a pause
+
+const TRANSITIONS: Record<GameState, GameState[]> = {
+  START: ['COUNTDOWN'],
+  COUNTDOWN: ['PLAYING', 'PAUSED', 'START'],
+  PLAYING: ['PAUSED', 'FINISHED', 'GAMEOVER'],
+  PAUSED: ['RESUMING', 'COUNTDOWN', 'START'], // resume, restart, quit
+  RESUMING: ['PLAYING', 'PAUSED'],
+  FINISHED: ['COUNTDOWN', 'START'],
+  GAMEOVER: ['COUNTDOWN', 'START'],
+};
+
+export const canTransition = (from: GameState, to: GameState) => TRANSITIONS[from].includes(to);
+
+// `to` if the machine allows it, otherwise the state is left as it is
+export const nextGameState = (from: GameState, to: GameState) => (canTransition(from, to) ? to : from);
+
+// A race is under way, whether or not the clock is running
+export const isRacing = (state: GameState) =>
+  state === 'COUNTDOWN' || state === 'PLAYING' || state === 'PAUSED' || state === 'RESUMING';
+
+// States that pause when the page is hidden or loses focus
+export const isPausable = (state: GameState) => isRacing(state) && state !== 'PAUSED';
+
+// Seconds a countdown state lasts before the race (re)starts
+export const countdownTime = (state: GameState) =>
+  state === 'COUNTDOWN' ? COUNTDOWN_TIME : (state === 'RESUMING' ? RESUME_TIME : 0);
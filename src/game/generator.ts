@@ -0,0 +1,85 @@
+import { ATMOSPHERE_IDS } from './atmosphere';
+import { THEMES } from './constants';
+import { createRng } from './random';
+import { TRACK_FORMAT_VERSION, type TrackDefinition, type TrackSection, type TrackSpritePlacement } from './track';
+
+// --- Procedural Tracks ---
+
+export type GeneratorOptions = {
+  segments?: number; // approximate course length
+  maxCurve?: number;
+  maxElevation?: number;
+  obstacleEvery?: number; // average gap between obstacles, in segments
+  boostEvery?: number;
+};
+
+const DEFAULT_OPTIONS: Required<GeneratorOptions> = {
+  segments: 520,
+  maxCurve: 4,
+  maxElevation: 4000,
+  obstacleEvery: 18,
+  boostEvery: 60,
+};
+
+export const SEED_TRACK_PREFIX = 'seed:';
+
+const START_STRAIGHT = 30;
+const FINISH_STRAIGHT = 30;
+
+export const generateTrack = (seed: string, options: GeneratorOptions = {}): TrackDefinition => {
+  const opts = { ...DEFAULT_OPTIONS, ...options };
+  const rng = createRng(seed);
+  const theme = rng.pick(Object.keys(THEMES));
+
+  const sections: TrackSection[] = [{ length: START_STRAIGHT, theme }];
+  let total = START_STRAIGHT;
+  let height = 0;
+
+  while (total < opts.segments - FINISH_STRAIGHT - 40) {
+    const length = rng.int(25, 80);
+    const section: TrackSection = { length, theme };
+    const kind = rng.pick(['straight', 'curve', 'hill', 'curve', 'curvyHill'] as const);
+
+    if (kind === 'curve' || kind === 'curvyHill') {
+      section.curve = Math.round(rng.range(1, opts.maxCurve) * 10) / 10 * (rng.chance(0.5) ? 1 : -1);
+    }
+    if (kind === 'hill' || kind === 'curvyHill') {
+      // Bias back toward ground level so the course never drifts too far up or down
+      const target = rng.range(-opts.maxElevation, opts.maxElevation) - height / 2;
+      section.elevation = Math.round(target / 100) * 100;
+      height += section.elevation;
+    }
+
+    sections.push(section);
+    total += length;
+  }
+
+  // Return to the starting height so the loop closes cleanly, then run into the finish
+  sections.push({ length: 40, elevation: -height, theme });
+  sections.push({ length: FINISH_STRAIGHT, theme });
+  total += 40 + FINISH_STRAIGHT;
+
+  const sprites: TrackSpritePlacement[] = [];
+  const lastSpriteSegment = total - FINISH_STRAIGHT;
+
+  for (let n = START_STRAIGHT; n < lastSpriteSegment; n += rng.int(Math.ceil(opts.obstacleEvery / 2), opts.obstacleEvery * 2)) {
+    sprites.push({ type: 'obstacle', segment: n, x: Math.round(rng.range(-0.8, 0.8) * 100) / 100 });
+  }
+  for (let n = START_STRAIGHT + Math.ceil(opts.boostEvery / 2); n < lastSpriteSegment; n += rng.int(Math.ceil(opts.boostEvery / 2), Math.ceil(opts.boostEvery * 1.5))) {
+    sprites.push({ type: 'boost', segment: n, x: Math.round(rng.range(-0.5, 0.5) * 100) / 100 });
+  }
+  for (let n = 20; n < lastSpriteSegment; n += 5) {
+    sprites.push({ type: 'prop', segment: n, x: Math.round((-1.5 - rng.next() * 2) * 100) / 100 });
+    sprites.push({ type: 'prop', segment: n, x: Math.round((1.5 + rng.next() * 2) * 100) / 100 });
+  }
+
+  return {
+    version: TRACK_FORMAT_VERSION,
+    id: `${SEED_TRACK_PREFIX}${seed}`,
+    name: `随机赛道 #${seed}`,
+    // Separate stream so adding weather didn't change the layout of existing seeds
+    atmosphere: createRng(`${seed}:atmosphere`).pick(ATMOSPHERE_IDS),
+    sections,
+    sprites,
+  };
+};
@@ -0,0 +1,93 @@
+import { MAX_SPEED, PLAYER_Z, SEGMENT_LENGTH } from './constants';
+import type { EngineState, Input } from './engine';
+
+// --- Handling ---
+// Lateral movement of the player car. The steering wheel turns toward the input
+// at a limited rate, curves push the car outward with the square of its speed,
+// and holding drift through a corner trades grip and speed for a mini-boost
+// when it's let go. Positions are in road half-widths (playerX units).
+
+export type Handling = {
+  steerRate: number; // road half-widths per second at full speed and full lock
+  steerResponse: number; // full locks per second the wheel can turn through
+  centrifugal: number; // outward push per unit of curve at full speed, road half-widths per second
+  driftGrip: number; // fraction of the centrifugal push felt while drifting
+  driftSteer: number; // extra steering while drifting, as a fraction of steerRate
+  driftDrag: number; // fraction of speed lost per second while drifting
+  driftCharge: number; // seconds of drifting that fully charge the mini-boost
+  driftBoost: number; // seconds of boost from a full charge
+};
+
+export const DEFAULT_HANDLING: Handling = {
+  steerRate: 3,
+  steerResponse: 6,
+  centrifugal: 0.35,
+  driftGrip: 0.3,
+  driftSteer: 0.5,
+  driftDrag: 0.15,
+  driftCharge: 1,
+  driftBoost: 1,
+};
+
+const DRIFT_MIN_SPEED = MAX_SPEED * 0.5;
+const DRIFT_MIN_STEER = 0.3; // wheel position needed to start a drift
+
+export type DriftState = {
+  direction: -1 | 0 | 1; // side the drift was started toward, 0 when not drifting
+  charge: number; // seconds
+};
+
+export const createDrift = (): DriftState => ({ direction: 0, charge: 0 });
+
+// Moves the wheel toward `target`, no faster than the vehicle allows
+const turnWheel = (wheel: number, target: number, handling: Handling, dt: number) => {
+  const limit = handling.steerResponse * dt;
+  return wheel + Math.max(-limit, Math.min(limit, target - wheel));
+};
+
+// Starts, charges or releases a drift; releasing a fully charged drift boosts
+const updateDrift = (state: EngineState, input: Input, dt: number) => {
+  const { drift } = state;
+  const { handling } = state.vehicle;
+  const holding = input.drift > 0 && state.speed >= DRIFT_MIN_SPEED;
+
+  if (drift.direction === 0) {
+    if (holding && Math.abs(state.steer) >= DRIFT_MIN_STEER) {
+      drift.direction = state.steer > 0 ? 1 : -1;
+      drift.charge = 0;
+      state.events.push('drift');
+    }
+    return;
+  }
+
+  if (holding) {
+    // Steering against the drift doesn't charge it
+    if (state.steer * drift.direction > 0) drift.charge += dt;
+    state.speed *= 1 - handling.driftDrag * dt;
+    return;
+  }
+
+  if (drift.charge >= handling.driftCharge) {
+    state.boostTimer = Math.max(state.boostTimer, handling.driftBoost);
+    state.events.push('miniboost');
+  }
+  drift.direction = 0;
+  drift.charge = 0;
+};
+
+// Applies steering, drift and the curve's pull to playerX for one step.
+// `input` has already been clamped by the engine.
+export const updateHandling = (state: EngineState, input: Input, dt: number) => {
+  const { handling } = state.vehicle;
+  state.steer = turnWheel(state.steer, input.steer, handling, dt);
+  updateDrift(state, input, dt);
+
+  const drifting = state.drift.direction !== 0;
+  const speedRatio = state.speed / MAX_SPEED;
+  // The curve under the car, not the camera
+  const segment = state.segments[Math.floor((state.position + PLAYER_Z) / SEGMENT_LENGTH) % state.segments.length];
+  const steerRate = handling.steerRate * (drifting ? 1 + handling.driftSteer : 1);
+  const grip = drifting ? handling.driftGrip : 1;
+  state.playerX += state.steer * steerRate * dt * speedRatio;
+  state.playerX -= segment.curve * handling.centrifugal * grip * dt * speedRatio * speedRatio;
+};
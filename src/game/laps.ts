@@ -0,0 +1,82 @@
+import { MAX_SPEED, SEGMENT_LENGTH } from './constants';
+import type { EngineState } from './engine';
+
+// --- Laps & Checkpoints ---
+// A race runs `laps` times around the looped track. Checkpoint segments split
+// each lap so it can be compared with the best lap as it happens. In time-limit
+// mode every checkpoint buys the time needed to reach the next one.
+
+export type RaceSettings = {
+  laps: number;
+  timeLimit: boolean;
+};
+
+export type LapRecord = {
+  time: number; // seconds
+  splits: number[]; // seconds from the start of the lap to each checkpoint
+};
+
+export const DEFAULT_RACE_SETTINGS: RaceSettings = { laps: 1, timeLimit: false };
+export const LAP_CHOICES = [1, 3, 5];
+export const MAX_LAPS = 10;
+
+const TIME_LIMIT_PACE = 0.7; // fraction of top speed the allowance is based on
+const TIME_LIMIT_GRACE = 1; // seconds added to every allowance
+const TIME_LIMIT_START = 3; // extra seconds to get up to speed from the grid
+
+// Seconds granted to cover `distance` world units
+const allowance = (distance: number) => distance / (MAX_SPEED * TIME_LIMIT_PACE) + TIME_LIMIT_GRACE;
+
+// Distance from checkpoint `index` (or the lap line, for -1) to the next checkpoint or lap line
+const stretchAfter = (state: EngineState, index: number) => {
+  const from = index < 0 ? 0 : state.checkpoints[index];
+  const to = index + 1 < state.checkpoints.length ? state.checkpoints[index + 1] : state.trackLength;
+  return to - from;
+};
+
+export const findCheckpoints = (state: EngineState) =>
+  state.segments.filter(segment => segment.checkpoint).map(segment => segment.index * SEGMENT_LENGTH);
+
+export const initialTimeRemaining = (state: EngineState) =>
+  state.settings.timeLimit ? allowance(stretchAfter(state, -1)) + TIME_LIMIT_START : Infinity;
+
+// Records the splits for every checkpoint the player has reached this lap
+export const passCheckpoints = (state: EngineState) => {
+  while (state.splits.length < state.checkpoints.length && state.position >= state.checkpoints[state.splits.length]) {
+    state.splits.push(state.time - state.lapStart);
+    if (state.settings.timeLimit) state.timeRemaining += allowance(stretchAfter(state, state.splits.length - 1));
+    state.events.push('checkpoint');
+  }
+};
+
+// Called when the player crosses the line at the end of the track
+export const completeLap = (state: EngineState) => {
+  state.lapRecords.push({ time: state.time - state.lapStart, splits: state.splits });
+  state.lap++;
+  state.lapStart = state.time;
+  state.splits = [];
+  if (state.settings.timeLimit) state.timeRemaining += allowance(stretchAfter(state, -1));
+};
+
+// --- Lap Times ---
+
+export const bestLap = (laps: LapRecord[]) =>
+  laps.reduce<LapRecord | null>((best, lap) => (!best || lap.time < best.time ? lap : best), null);
+
+// Total race distance covered so far, in world units
+export const raceProgress = (lap: number, position: number, trackLength: number) => lap * trackLength + position;
+
+export const parseLapRecord = (data: unknown): LapRecord => {
+  const value = data as Partial<LapRecord> | null;
+  if (
+    !value ||
+    typeof value.time !== 'number' ||
+    !Array.isArray(value.splits) ||
+    !value.splits.every(split => typeof split === 'number')
+  ) {
+    throw new Error('invalid lap record');
+  }
+  return { time: value.time, splits: value.splits };
+};
+
+export const formatDelta = (delta: number) => `${delta < 0 ? '-' : '+'}${Math.abs(delta).toFixed(2)}`;
@@ -0,0 +1,47 @@
+// --- Seeded Random ---
+
+export type Rng = {
+  next: () => number; // [0, 1)
+  range: (min: number, max: number) => number;
+  int: (min: number, max: number) => number; // inclusive
+  pick: <T>(items: readonly T[]) => T;
+  chance: (p: number) => boolean;
+};
+
+// Hash an arbitrary seed string into a 32-bit integer (FNV-1a)
+export const hashSeed = (seed: string) => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    h ^= seed.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+};
+
+// mulberry32: small, fast and good enough for level generation
+export const createRng = (seed: string | number): Rng => {
+  let state = typeof seed === 'number' ? seed >>> 0 : hashSeed(seed);
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  return {
+    next,
+    range: (min, max) => min + next() * (max - min),
+    int: (min, max) => min + Math.floor(next() * (max - min + 1)),
+    pick: items => items[Math.floor(next() * items.length)],
+    chance: p => next() < p,
+  };
+};
+
+const SEED_ALPHABET = 'abcdefghjkmnpqrstuvwxyz23456789';
+export const MAX_SEED_LENGTH = 24;
+
+// Only used to come up with a fresh seed; everything downstream is deterministic
+export const randomSeed = (length = 6) =>
+  Array.from({ length }, () => SEED_ALPHABET[Math.floor(Math.random() * SEED_ALPHABET.length)]).join('');
+
+export const normalizeSeed = (seed: string) => seed.trim().slice(0, MAX_SEED_LENGTH);
@@ -0,0 +1,174 @@
+import { createEngineState, ENGINE_VERSION, step, type EngineState, type Input } from './engine';
+import type { Car } from './cars';
+import { DEFAULT_RACE_SETTINGS, MAX_LAPS, type RaceSettings } from './laps';
+import type { RaceMode, Segment } from './types';
+import { DEFAULT_VEHICLE, findVehicle, VEHICLES, type Vehicle, type VehicleId } from './vehicles';
+
+// --- Replay Format ---
+// Replays store the per-tick input, run-length encoded. Because the engine is
+// deterministic, feeding the same inputs into a fresh state on the same track
+// reproduces the run exactly, which is how ghosts are played back.
+
+export const REPLAY_FORMAT_VERSION = 3;
+
+const INPUT_SCALE = 100; // inputs are stored as integers in [-100, 100]
+
+export type ReplayRun = [ticks: number, steer: number, throttle: number, brake: number, drift: number]; // drift is 0 or 1
+
+export type Replay = {
+  version: typeof REPLAY_FORMAT_VERSION;
+  engineVersion: number;
+  trackId: string;
+  mode: RaceMode; // decides which AI cars the run was driven against
+  vehicle: VehicleId;
+  laps: number;
+  timeLimit: boolean;
+  time: number; // seconds
+  ticks: number;
+  inputs: ReplayRun[];
+  recordedAt: string; // ISO timestamp
+};
+
+export class ReplayFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ReplayFormatError';
+  }
+}
+
+// Inputs are quantized before they reach the engine so that a recorded run
+// replays bit-for-bit.
+const quantize = (value: number, min: number) => Math.round(Math.max(min, Math.min(1, value)) * INPUT_SCALE);
+
+// --- Recording ---
+
+export type ReplayRecorder = {
+  record: (input: Input) => Input;
+  finish: (trackId: string, mode: RaceMode, vehicle: Vehicle, settings: RaceSettings, time: number) => Replay;
+};
+
+export const createRecorder = (): ReplayRecorder => {
+  const inputs: ReplayRun[] = [];
+  let ticks = 0;
+
+  return {
+    record: input => {
+      const steer = quantize(input.steer, -1);
+      const throttle = quantize(input.throttle, 0);
+      const brake = quantize(input.brake, 0);
+      const drift = input.drift > 0 ? 1 : 0;
+      const last = inputs[inputs.length - 1];
+      if (last && last[1] === steer && last[2] === throttle && last[3] === brake && last[4] === drift) last[0]++;
+      else inputs.push([1, steer, throttle, brake, drift]);
+      ticks++;
+      return { steer: steer / INPUT_SCALE, throttle: throttle / INPUT_SCALE, brake: brake / INPUT_SCALE, drift };
+    },
+    finish: (trackId, mode, vehicle, settings, time) => ({
+      version: REPLAY_FORMAT_VERSION,
+      engineVersion: ENGINE_VERSION,
+      trackId,
+      mode,
+      vehicle: vehicle.id,
+      laps: settings.laps,
+      timeLimit: settings.timeLimit,
+      time,
+      ticks,
+      inputs: inputs.map(run => [...run] as ReplayRun),
+      recordedAt: new Date().toISOString(),
+    }),
+  };
+};
+
+// --- Playback ---
+
+export type ReplayPlayer = {
+  replay: Replay;
+  state: EngineState;
+  advance: () => void; // one engine step
+};
+
+export const replaySettings = (replay: Replay): RaceSettings => ({ laps: replay.laps, timeLimit: replay.timeLimit });
+
+// `cars` must be created for the replay's track and mode, like the original run
+export const createReplayPlayer = (replay: Replay, segments: Segment[], cars: Car[] = []): ReplayPlayer => {
+  const state = createEngineState(segments, cars, replaySettings(replay), findVehicle(replay.vehicle) ?? DEFAULT_VEHICLE);
+  let run = 0;
+  let used = 0;
+
+  return {
+    replay,
+    state,
+    advance: () => {
+      if (state.finished || state.failure || run >= replay.inputs.length) return;
+      const [ticks, steer, throttle, brake, drift] = replay.inputs[run];
+      step(state, { steer: steer / INPUT_SCALE, throttle: throttle / INPUT_SCALE, brake: brake / INPUT_SCALE, drift });
+      if (++used >= ticks) {
+        run++;
+        used = 0;
+      }
+    },
+  };
+};
+
+// --- Validation ---
+
+const RACE_MODES: RaceMode[] = ['solo', 'race', 'traffic'];
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const parseReplay = (data: unknown): Replay => {
+  if (!isObject(data)) throw new ReplayFormatError('replay must be an object');
+  if (data.version !== REPLAY_FORMAT_VERSION) {
+    throw new ReplayFormatError(`unsupported replay version ${JSON.stringify(data.version)} (expected ${REPLAY_FORMAT_VERSION})`);
+  }
+  if (data.engineVersion !== ENGINE_VERSION) {
+    throw new ReplayFormatError(`replay was recorded with engine version ${JSON.stringify(data.engineVersion)}, this build runs ${ENGINE_VERSION}`);
+  }
+  if (typeof data.trackId !== 'string' || !data.trackId) throw new ReplayFormatError('trackId must be a non-empty string');
+  const mode = data.mode === undefined ? 'solo' : data.mode as RaceMode;
+  if (!RACE_MODES.includes(mode)) throw new ReplayFormatError(`mode must be one of ${RACE_MODES.join(', ')}`);
+  // Replays from before the garage were driven in the default car
+  const vehicle = data.vehicle === undefined ? DEFAULT_VEHICLE : findVehicle(String(data.vehicle));
+  if (!vehicle) throw new ReplayFormatError(`vehicle must be one of ${VEHICLES.map(entry => entry.id).join(', ')}`);
+  // Replays from before multi-lap races are single-lap runs without a time limit
+  const laps = (data.laps ?? DEFAULT_RACE_SETTINGS.laps) as number;
+  if (!Number.isInteger(laps) || laps < 1 || laps > MAX_LAPS) throw new ReplayFormatError(`laps must be an integer in [1, ${MAX_LAPS}]`);
+  const timeLimit = data.timeLimit ?? DEFAULT_RACE_SETTINGS.timeLimit;
+  if (typeof timeLimit !== 'boolean') throw new ReplayFormatError('timeLimit must be a boolean');
+  if (typeof data.time !== 'number' || !(data.time > 0)) throw new ReplayFormatError('time must be a positive number');
+  if (!Array.isArray(data.inputs)) throw new ReplayFormatError('inputs must be an array');
+
+  let ticks = 0;
+  const inputs = data.inputs.map((run, i): ReplayRun => {
+    if (!Array.isArray(run) || run.length !== 5) throw new ReplayFormatError(`inputs[${i}] must be a [ticks, steer, throttle, brake, drift] tuple`);
+    const [count, steer, throttle, brake, drift] = run;
+    if (!Number.isInteger(count) || count < 1) throw new ReplayFormatError(`inputs[${i}] tick count must be a positive integer`);
+    if (!Number.isInteger(steer) || Math.abs(steer) > INPUT_SCALE) {
+      throw new ReplayFormatError(`inputs[${i}] steer must be an integer in [-${INPUT_SCALE}, ${INPUT_SCALE}]`);
+    }
+    for (const [name, value] of [['throttle', throttle], ['brake', brake]] as const) {
+      if (!Number.isInteger(value) || value < 0 || value > INPUT_SCALE) {
+        throw new ReplayFormatError(`inputs[${i}] ${name} must be an integer in [0, ${INPUT_SCALE}]`);
+      }
+    }
+    if (drift !== 0 && drift !== 1) throw new ReplayFormatError(`inputs[${i}] drift must be 0 or 1`);
+    ticks += count;
+    return [count, steer, throttle, brake, drift];
+  });
+  if (data.ticks !== ticks) throw new ReplayFormatError(`ticks (${String(data.ticks)}) does not match the recorded inputs (${ticks})`);
+
+  return {
+    version: REPLAY_FORMAT_VERSION,
+    engineVersion: ENGINE_VERSION,
+    trackId: data.trackId,
+    mode,
+    vehicle: vehicle.id,
+    laps,
+    timeLimit,
+    time: data.time,
+    ticks,
+    inputs,
+    recordedAt: typeof data.recordedAt === 'string' ? data.recordedAt : new Date(0).toISOString(),
+  };
+};
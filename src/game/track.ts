@@ -0,0 +1,271 @@
+import { ATMOSPHERE_IDS, type AtmosphereId } from './atmosphere';
+import { COLORS, RUMBLE_LENGTH, SEGMENT_LENGTH, THEMES } from './constants';
+import type { ColorSet, Segment, Sprite, SpriteType } from './types';
+
+// --- Track Format ---
+
+export const TRACK_FORMAT_VERSION = 1;
+
+export type TrackTheme = { light: ColorSet; dark: ColorSet };
+
+export type TrackSection = {
+  length: number; // in segments
+  curve?: number;
+  elevation?: number; // height change across the section (eased), in world units
+  theme?: string;
+};
+
+export type TrackSpritePlacement = {
+  type: SpriteType;
+  segment: number;
+  x: number;
+  w?: number;
+  h?: number;
+  source?: string;
+  every?: number; // repeat every N segments...
+  until?: number; // ...up to (but not including) this segment
+};
+
+export type TrackDefinition = {
+  version: typeof TRACK_FORMAT_VERSION;
+  id: string;
+  name: string;
+  laps?: number; // default lap count offered on the START screen
+  checkpoints?: number[]; // segment indices, evenly spaced when omitted
+  atmosphere?: AtmosphereId; // time of day and weather, unless the player picks one
+  themes?: Record<string, TrackTheme>;
+  sections: TrackSection[];
+  sprites: TrackSpritePlacement[];
+};
+
+export type Track = {
+  definition: TrackDefinition;
+  segments: Segment[];
+  length: number; // in world units
+};
+
+export const SPRITE_SIZES: Record<SpriteType, { w: number; h: number }> = {
+  obstacle: { w: 100, h: 100 },
+  boost: { w: 80, h: 80 },
+  prop: { w: 150, h: 300 },
+};
+
+// Asset ids drawn for placements that don't name their own `source`
+export const DEFAULT_SPRITE_SOURCES: Record<SpriteType, string> = {
+  obstacle: 'rock',
+  boost: 'boost',
+  prop: 'tree',
+};
+
+const SPRITE_TYPES = Object.keys(SPRITE_SIZES) as SpriteType[];
+const START_SEGMENTS = 10;
+const FINISH_SEGMENTS = 9;
+const DEFAULT_CHECKPOINTS = 3;
+const CLIMB_TOLERANCE = 1e-6; // world units, for fractional elevations that don't add up exactly
+
+export class TrackFormatError extends Error {
+  constructor(public path: string, message: string) {
+    super(`${path}: ${message}`);
+    this.name = 'TrackFormatError';
+  }
+}
+
+// --- Validation ---
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const expectNumber = (value: unknown, path: string, { integer = false, min = -Infinity } = {}) => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) throw new TrackFormatError(path, 'must be a number');
+  if (integer && !Number.isInteger(value)) throw new TrackFormatError(path, 'must be an integer');
+  if (value < min) throw new TrackFormatError(path, `must be >= ${min}`);
+  return value;
+};
+
+const expectString = (value: unknown, path: string) => {
+  if (typeof value !== 'string' || value.length === 0) throw new TrackFormatError(path, 'must be a non-empty string');
+  return value;
+};
+
+const parseColorSet = (value: unknown, path: string): ColorSet => {
+  if (!isObject(value)) throw new TrackFormatError(path, 'must be an object');
+  return {
+    road: expectString(value.road, `${path}.road`),
+    grass: expectString(value.grass, `${path}.grass`),
+    rumble: expectString(value.rumble, `${path}.rumble`),
+    lane: value.lane === undefined ? undefined : expectString(value.lane, `${path}.lane`),
+  };
+};
+
+const parseSection = (value: unknown, path: string, themes: Record<string, TrackTheme>): TrackSection => {
+  if (!isObject(value)) throw new TrackFormatError(path, 'must be an object');
+  const theme = value.theme === undefined ? undefined : expectString(value.theme, `${path}.theme`);
+  if (theme !== undefined && !themes[theme]) throw new TrackFormatError(`${path}.theme`, `unknown theme "${theme}"`);
+  return {
+    length: expectNumber(value.length, `${path}.length`, { integer: true, min: 1 }),
+    curve: value.curve === undefined ? 0 : expectNumber(value.curve, `${path}.curve`),
+    elevation: value.elevation === undefined ? 0 : expectNumber(value.elevation, `${path}.elevation`),
+    theme,
+  };
+};
+
+const parseSprite = (value: unknown, path: string, totalSegments: number): TrackSpritePlacement => {
+  if (!isObject(value)) throw new TrackFormatError(path, 'must be an object');
+  const type = value.type as SpriteType;
+  if (!SPRITE_TYPES.includes(type)) {
+    throw new TrackFormatError(`${path}.type`, `must be one of ${SPRITE_TYPES.join(', ')}`);
+  }
+  const segment = expectNumber(value.segment, `${path}.segment`, { integer: true, min: 0 });
+  if (segment >= totalSegments) throw new TrackFormatError(`${path}.segment`, `must be < ${totalSegments} (track length)`);
+
+  const placement: TrackSpritePlacement = { type, segment, x: expectNumber(value.x, `${path}.x`) };
+  if (value.w !== undefined) placement.w = expectNumber(value.w, `${path}.w`, { min: 1 });
+  if (value.h !== undefined) placement.h = expectNumber(value.h, `${path}.h`, { min: 1 });
+  if (value.source !== undefined) placement.source = expectString(value.source, `${path}.source`);
+  if (value.every !== undefined) placement.every = expectNumber(value.every, `${path}.every`, { integer: true, min: 1 });
+  if (value.until !== undefined) {
+    if (placement.every === undefined) throw new TrackFormatError(`${path}.until`, 'requires "every"');
+    placement.until = expectNumber(value.until, `${path}.until`, { integer: true, min: segment });
+    if (placement.until > totalSegments) throw new TrackFormatError(`${path}.until`, `must be <= ${totalSegments} (track length)`);
+  }
+  return placement;
+};
+
+const parseAtmosphere = (value: unknown) => {
+  if (value === undefined) return undefined;
+  if (!ATMOSPHERE_IDS.includes(value as AtmosphereId)) {
+    throw new TrackFormatError('atmosphere', `must be one of ${ATMOSPHERE_IDS.join(', ')}`);
+  }
+  return value as AtmosphereId;
+};
+
+// `closed: false` lets the elevations leave the lap off its starting height,
+// for tracks still being edited
+export const parseTrack = (data: unknown, { closed = true } = {}): TrackDefinition => {
+  if (!isObject(data)) throw new TrackFormatError('track', 'must be an object');
+  if (data.version !== TRACK_FORMAT_VERSION) {
+    throw new TrackFormatError('version', `unsupported version ${JSON.stringify(data.version)} (expected ${TRACK_FORMAT_VERSION})`);
+  }
+
+  const themes: Record<string, TrackTheme> = {};
+  if (data.themes !== undefined) {
+    if (!isObject(data.themes)) throw new TrackFormatError('themes', 'must be an object');
+    for (const [name, theme] of Object.entries(data.themes)) {
+      if (!isObject(theme)) throw new TrackFormatError(`themes.${name}`, 'must be an object');
+      themes[name] = {
+        light: parseColorSet(theme.light, `themes.${name}.light`),
+        dark: parseColorSet(theme.dark, `themes.${name}.dark`),
+      };
+    }
+  }
+
+  if (!Array.isArray(data.sections) || data.sections.length === 0) {
+    throw new TrackFormatError('sections', 'must be a non-empty array');
+  }
+  const allThemes = { ...THEMES, ...themes };
+  const sections = data.sections.map((s, i) => parseSection(s, `sections[${i}]`, allThemes));
+  const totalSegments = sections.reduce((sum, s) => sum + s.length, 0);
+  if (totalSegments <= START_SEGMENTS + FINISH_SEGMENTS) {
+    throw new TrackFormatError('sections', `must add up to more than ${START_SEGMENTS + FINISH_SEGMENTS} segments`);
+  }
+  // The lap wraps straight from the finish back onto the start, so the road
+  // has to end at the height it began at
+  const climb = sections.reduce((sum, s) => sum + (s.elevation ?? 0), 0);
+  if (closed && Math.abs(climb) > CLIMB_TOLERANCE) {
+    throw new TrackFormatError('sections', `elevations must add up to 0 so the lap ends at its starting height (they add up to ${climb})`);
+  }
+
+  if (!Array.isArray(data.sprites)) throw new TrackFormatError('sprites', 'must be an array');
+  const sprites = data.sprites.map((s, i) => parseSprite(s, `sprites[${i}]`, totalSegments));
+
+  let checkpoints: number[] | undefined;
+  if (data.checkpoints !== undefined) {
+    if (!Array.isArray(data.checkpoints)) throw new TrackFormatError('checkpoints', 'must be an array');
+    checkpoints = data.checkpoints.map((value, i) => {
+      const path = `checkpoints[${i}]`;
+      const segment = expectNumber(value, path, { integer: true, min: 1 });
+      if (segment >= totalSegments) throw new TrackFormatError(path, `must be < ${totalSegments} (track length)`);
+      if (i > 0 && segment <= data.checkpoints[i - 1]) throw new TrackFormatError(path, 'must be greater than the previous checkpoint');
+      return segment;
+    });
+  }
+
+  return {
+    version: TRACK_FORMAT_VERSION,
+    id: expectString(data.id, 'id'),
+    name: expectString(data.name, 'name'),
+    laps: data.laps === undefined ? undefined : expectNumber(data.laps, 'laps', { integer: true, min: 1 }),
+    checkpoints,
+    atmosphere: parseAtmosphere(data.atmosphere),
+    themes,
+    sections,
+    sprites,
+  };
+};
+
+// --- Building ---
+
+const defaultCheckpoints = (totalSegments: number) =>
+  Array.from({ length: DEFAULT_CHECKPOINTS }, (_, i) => Math.round((totalSegments * (i + 1)) / (DEFAULT_CHECKPOINTS + 1)));
+
+// Hills ease in and out so crests and dips are smooth instead of sharp kinks
+export const easeInOut = (t: number) => -Math.cos(t * Math.PI) / 2 + 0.5;
+
+export const buildSegments = (track: TrackDefinition): Segment[] => {
+  const segments: Segment[] = [];
+  const themes = { ...THEMES, ...track.themes };
+  const totalSegments = track.sections.reduce((sum, s) => sum + s.length, 0);
+  const checkpoints = new Set(track.checkpoints ?? defaultCheckpoints(totalSegments));
+  let y = 0;
+
+  for (const section of track.sections) {
+    const theme = themes[section.theme ?? 'default'];
+    const startY = y;
+    const elevation = section.elevation ?? 0;
+
+    for (let i = 0; i < section.length; i++) {
+      const n = segments.length;
+      const isFinish = n >= totalSegments - FINISH_SEGMENTS;
+      const isStart = n < START_SEGMENTS;
+      const isCheckpoint = checkpoints.has(n);
+      const stripe = Math.floor(n / RUMBLE_LENGTH) % 2 ? theme.dark : theme.light;
+      const y1 = startY + elevation * easeInOut(i / section.length);
+      const y2 = startY + elevation * easeInOut((i + 1) / section.length);
+
+      segments.push({
+        index: n,
+        p1: { x: 0, y: y1, z: n * SEGMENT_LENGTH, screenX: 0, screenY: 0, screenW: 0 },
+        p2: { x: 0, y: y2, z: (n + 1) * SEGMENT_LENGTH, screenX: 0, screenY: 0, screenW: 0 },
+        curve: section.curve ?? 0,
+        sprites: [],
+        color: isFinish ? COLORS.FINISH : (isStart ? COLORS.START : (isCheckpoint ? COLORS.CHECKPOINT : stripe)),
+        checkpoint: isCheckpoint,
+        clip: 0,
+      });
+    }
+    y = startY + elevation;
+  }
+
+  for (const placement of track.sprites) {
+    const { w, h } = SPRITE_SIZES[placement.type];
+    const sprite: Sprite = {
+      source: placement.source ?? DEFAULT_SPRITE_SOURCES[placement.type],
+      x: placement.x,
+      w: placement.w ?? w,
+      h: placement.h ?? h,
+      type: placement.type,
+    };
+    const until = placement.every ? (placement.until ?? totalSegments) : placement.segment + 1;
+    for (let n = placement.segment; n < until; n += placement.every ?? 1) {
+      segments[n].sprites.push({ ...sprite });
+    }
+  }
+
+  return segments;
+};
+
+export const loadTrack = (data: unknown): Track => {
+  const definition = parseTrack(data);
+  const segments = buildSegments(definition);
+  return { definition, segments, length: segments.length * SEGMENT_LENGTH };
+};
@@ -0,0 +1,37 @@
+export type ColorSet = {
+  road: string;
+  grass: string;
+  rumble: string;
+  lane?: string;
+};
+
+export type Point = { x: number; y: number; z: number; screenX: number; screenY: number; screenW: number };
+
+export type Segment = {
+  index: number;
+  p1: Point;
+  p2: Point;
+  curve: number;
+  sprites: Sprite[];
+  color: ColorSet;
+  checkpoint: boolean; // a checkpoint line is drawn across the start of this segment
+  clip: number; // screen y of the nearest crest in front of this segment, set while rendering
+};
+
+export type SpriteType = 'obstacle' | 'prop' | 'boost';
+
+export type Sprite = {
+  source: string; // asset id, drawn as a vector shape when the asset is missing
+  x: number; // -1 to 1 (offset from center)
+  w: number;
+  h: number;
+  type: SpriteType;
+};
+
+export type CarColors = { body: string; outline: string; roof: string };
+
+export type RaceMode = 'solo' | 'race' | 'traffic' | 'endless' | 'versus' | 'online'; // endless, versus and online have no AI cars, replays or leaderboard; endless has no track
+
+export type Player = 0 | 1; // local players in versus mode
+
+export type GameState = 'START' | 'COUNTDOWN' | 'PLAYING' | 'PAUSED' | 'RESUMING' | 'FINISHED' | 'GAMEOVER'; // transitions in gameState.ts
@@ -0,0 +1,110 @@
+import { ACCEL, BOOST_DURATION, MAX_SPEED, OFF_ROAD_DECEL, OFF_ROAD_LIMIT } from './constants';
+import { DEFAULT_HANDLING, type Handling } from './handling';
+import type { CarColors } from './types';
+
+// --- Vehicles ---
+// Everything that differs between the cars in the garage. The roadster is the
+// original car: its numbers are the global constants, so runs recorded before
+// there was a garage replay exactly as they were. The others are unlocked by
+// setting a best single-lap time on one of the built-in tracks.
+
+export type VehicleId = 'roadster' | 'rally' | 'muscle' | 'formula';
+
+// Unlocked by a best time under `time` seconds on `trackId`, single lap
+export type VehicleUnlock = { trackId: string; time: number };
+
+export type Vehicle = {
+  id: VehicleId;
+  name: string;
+  description: string;
+  topSpeed: number; // world units per second, without boost
+  accel: number; // world units per second squared
+  offRoadDecel: number; // extra deceleration on the grass (negative)
+  offRoadLimit: number; // speed the grass slows the car down to
+  boost: number; // top speed multiplier while boosting
+  boostDuration: number; // seconds a boost pad lasts
+  handling: Handling; // steering, grip and drifting
+  colors: CarColors; // for the vector car, and the garage
+  sprite: string | null; // atlas frames `${sprite}-left`, `-straight` and `-right`, null for the vector car
+  unlock: VehicleUnlock | null; // null when always available
+};
+
+export const DEFAULT_VEHICLE: Vehicle = {
+  id: 'roadster',
+  name: '经典跑车',
+  description: '各项均衡，适合任何赛道。',
+  topSpeed: MAX_SPEED,
+  accel: ACCEL,
+  offRoadDecel: OFF_ROAD_DECEL,
+  offRoadLimit: OFF_ROAD_LIMIT,
+  boost: 1.5,
+  boostDuration: BOOST_DURATION,
+  handling: DEFAULT_HANDLING,
+  colors: { body: '#EF4444', outline: '#991B1B', roof: '#FEE2E2' },
+  sprite: 'player',
+  unlock: null,
+};
+
+export const VEHICLES: Vehicle[] = [
+  DEFAULT_VEHICLE,
+  {
+    id: 'rally',
+    name: '拉力车',
+    description: '起步快、抓地好，开上草地也不怎么减速，但极速稍低。',
+    topSpeed: MAX_SPEED * 0.94,
+    accel: MAX_SPEED / 4,
+    offRoadDecel: -MAX_SPEED / 5,
+    offRoadLimit: MAX_SPEED / 2,
+    boost: 1.45,
+    boostDuration: BOOST_DURATION,
+    handling: { ...DEFAULT_HANDLING, steerRate: 3.2, centrifugal: 0.3, driftGrip: 0.45, driftCharge: 0.8 },
+    colors: { body: '#0EA5E9', outline: '#075985', roof: '#E0F2FE' },
+    sprite: 'rally',
+    unlock: { trackId: 'meadow', time: 12 },
+  },
+  {
+    id: 'muscle',
+    name: '肌肉车',
+    description: '极速高、氮气猛，但加速慢，过弯容易甩出去。',
+    topSpeed: MAX_SPEED * 1.1,
+    accel: MAX_SPEED / 5.5,
+    offRoadDecel: OFF_ROAD_DECEL,
+    offRoadLimit: OFF_ROAD_LIMIT,
+    boost: 1.65,
+    boostDuration: BOOST_DURATION,
+    handling: { ...DEFAULT_HANDLING, steerRate: 2.7, steerResponse: 5, centrifugal: 0.4, driftGrip: 0.25, driftDrag: 0.1 },
+    colors: { body: '#7C3AED', outline: '#4C1D95', roof: '#EDE9FE' },
+    sprite: 'muscle',
+    unlock: { trackId: 'autumn', time: 14 },
+  },
+  {
+    id: 'formula',
+    name: '方程式',
+    description: '最快也最灵敏，可一旦冲出赛道就几乎停下。',
+    topSpeed: MAX_SPEED * 1.12,
+    accel: MAX_SPEED / 4.5,
+    offRoadDecel: -MAX_SPEED * 0.8,
+    offRoadLimit: MAX_SPEED / 5,
+    boost: 1.4,
+    boostDuration: BOOST_DURATION,
+    handling: { ...DEFAULT_HANDLING, steerRate: 3.4, steerResponse: 7, centrifugal: 0.33 },
+    colors: { body: '#F8FAFC', outline: '#1E293B', roof: '#CBD5E1' },
+    sprite: 'formula',
+    unlock: { trackId: 'desert', time: 15 },
+  },
+];
+
+export const findVehicle = (id: string) => VEHICLES.find(vehicle => vehicle.id === id) ?? null;
+
+export const parseVehicleId = (data: unknown): VehicleId => {
+  const vehicle = typeof data === 'string' ? findVehicle(data) : null;
+  if (!vehicle) throw new Error('invalid vehicle');
+  return vehicle.id;
+};
+
+// `bestTime` looks up the player's best single-lap time on a track
+export const isUnlocked = (vehicle: Vehicle, bestTime: (trackId: string) => number | null) => {
+  if (!vehicle.unlock) return true;
+  const time = bestTime(vehicle.unlock.trackId);
+  return time !== null && time < vehicle.unlock.time;
+};
@@ -0,0 +1,40 @@
+import { createEngineState, type EngineState } from './engine';
+import type { RaceSettings } from './laps';
+import { buildSegments, type TrackDefinition } from './track';
+import type { Player } from './types';
+
+// --- Versus ---
+// Two local players race each other on split screen. Each drives their own
+// engine state, both in the default car and without AI cars. Each state gets
+// its own copy of the track's segments, so both players find every boost and
+// rock where the track put it, whatever the other player has picked up or hit.
+// Players drive through each other.
+
+const GRID_X = 0.5; // players start side by side, this far either side of the center line
+
+export const createVersusStates = (track: TrackDefinition, settings: RaceSettings): [EngineState, EngineState] => {
+  const players: [EngineState, EngineState] = [
+    createEngineState(buildSegments(track), [], settings),
+    createEngineState(buildSegments(track), [], settings),
+  ];
+  players[0].playerX = -GRID_X;
+  players[1].playerX = GRID_X;
+  return players;
+};
+
+export type VersusResult = {
+  winner: Player | null; // null for a draw
+  times: [number | null, number | null]; // finish times, null for whoever didn't finish
+};
+
+// Over as soon as someone crosses the line, or once nobody can any more
+export const isVersusOver = (players: [EngineState, EngineState]) =>
+  players.some(state => state.finished) || players.every(state => state.failure !== null);
+
+export const versusResult = (players: [EngineState, EngineState]): VersusResult => {
+  const times = players.map(state => (state.finished ? state.time : null)) as VersusResult['times'];
+  const [a, b] = times;
+  // Both cross in the same step with the same time: a draw
+  const winner = a !== null && (b === null || a < b) ? 0 : (b !== null && (a === null || b < a) ? 1 : null);
+  return { winner, times };
+};
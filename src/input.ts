@@ -0,0 +1,195 @@
+import type { Input } from './game/engine';
+import type { Player } from './game/types';
+
+// --- Input ---
+// Keyboard, gamepad and touch are merged into one analog Input, polled once per
+// frame by the game loop. Touch zones are fed in by the on-screen overlay.
+// In two-player mode the devices are split instead: each player gets half of
+// the keyboard, one gamepad and their own side of the touch screen.
+
+export type Action = 'left' | 'right' | 'throttle' | 'brake' | 'drift';
+
+export type TouchZone = 'left' | 'right' | 'brake' | 'drift';
+
+export type Bindings = {
+  keys: Record<Action, string[]>; // KeyboardEvent.code values
+  gamepad: {
+    steerAxis: number;
+    throttle: number; // button index (analog triggers report a value)
+    brake: number;
+    drift: number;
+  };
+  autoThrottle: boolean; // accelerate whenever not braking; always on while driving by touch
+};
+
+export const ACTIONS: Action[] = ['left', 'right', 'throttle', 'brake', 'drift'];
+
+export const ACTION_LABELS: Record<Action, string> = {
+  left: '左转',
+  right: '右转',
+  throttle: '油门',
+  brake: '刹车',
+  drift: '漂移',
+};
+
+// Standard gamepad mapping: left stick X, RT, LT, RB
+export const DEFAULT_BINDINGS: Bindings = {
+  keys: {
+    left: ['ArrowLeft', 'KeyA'],
+    right: ['ArrowRight', 'KeyD'],
+    throttle: ['ArrowUp', 'KeyW'],
+    brake: ['ArrowDown', 'KeyS', 'Space'],
+    drift: ['ShiftLeft', 'ShiftRight'],
+  },
+  gamepad: { steerAxis: 0, throttle: 7, brake: 6, drift: 5 },
+  autoThrottle: false,
+};
+
+// Keyboard halves for two players; the bindings set on the settings screen are single-player
+export const SPLIT_KEYS: [Record<Action, string[]>, Record<Action, string[]>] = [
+  { left: ['KeyA'], right: ['KeyD'], throttle: ['KeyW'], brake: ['KeyS'], drift: ['ShiftLeft'] },
+  { left: ['ArrowLeft'], right: ['ArrowRight'], throttle: ['ArrowUp'], brake: ['ArrowDown'], drift: ['ShiftRight', 'Slash'] },
+];
+
+const STICK_DEADZONE = 0.15;
+const TRIGGER_DEADZONE = 0.05;
+const DPAD_LEFT = 14;
+const DPAD_RIGHT = 15;
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+const isTextField = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+export const parseBindings = (data: unknown): Bindings => {
+  const value = data as Partial<Bindings> | null;
+  if (!value || typeof value !== 'object' || !value.keys || !value.gamepad) throw new Error('invalid bindings');
+  const keys = { ...DEFAULT_BINDINGS.keys };
+  for (const action of ACTIONS) {
+    const codes = value.keys[action];
+    if (Array.isArray(codes) && codes.every(code => typeof code === 'string')) keys[action] = codes;
+  }
+  const gamepad = { ...DEFAULT_BINDINGS.gamepad };
+  for (const key of Object.keys(gamepad) as (keyof Bindings['gamepad'])[]) {
+    if (Number.isInteger(value.gamepad[key])) gamepad[key] = value.gamepad[key];
+  }
+  const autoThrottle = typeof value.autoThrottle === 'boolean' ? value.autoThrottle : DEFAULT_BINDINGS.autoThrottle;
+  return { keys, gamepad, autoThrottle };
+};
+
+const getGamepads = () => {
+  if (typeof navigator === 'undefined' || !navigator.getGamepads) return [];
+  return navigator.getGamepads().filter((pad): pad is Gamepad => !!pad?.connected);
+};
+
+export const getGamepad = () => getGamepads()[0] ?? null;
+
+export type InputManager = {
+  poll: () => Input;
+  pollPlayers: () => [Input, Input]; // split between two players
+  setBindings: (bindings: Bindings) => void;
+  pressTouch: (pointerId: number, zone: TouchZone, player?: Player) => void;
+  reset: () => void;
+  dispose: () => void;
+};
+
+export const createInputManager = (initialBindings: Bindings): InputManager => {
+  let bindings = initialBindings;
+  const pressed = new Set<string>();
+  const touches = new Map<number, { zone: TouchZone; player: Player }>();
+  // The touch zones have no throttle, so a player's car drives itself until
+  // they use one of their own keys or their pad's triggers again
+  const touchScheme: [boolean, boolean] = [false, false];
+
+  const isBound = (code: string) =>
+    [bindings.keys, ...SPLIT_KEYS].some(keys => ACTIONS.some(action => keys[action].includes(code)));
+
+  const onKeyDown = (e: KeyboardEvent) => {
+    if (isTextField(e.target) || !isBound(e.code)) return;
+    pressed.add(e.code);
+    e.preventDefault();
+  };
+  const onKeyUp = (e: KeyboardEvent) => {
+    pressed.delete(e.code);
+  };
+  const onPointerEnd = (e: PointerEvent) => {
+    touches.delete(e.pointerId);
+  };
+  // Keys held while the window loses focus never get their keyup
+  const onBlur = () => {
+    pressed.clear();
+    touches.clear();
+  };
+
+  window.addEventListener('keydown', onKeyDown);
+  window.addEventListener('keyup', onKeyUp);
+  window.addEventListener('pointerup', onPointerEnd);
+  window.addEventListener('pointercancel', onPointerEnd);
+  window.addEventListener('blur', onBlur);
+
+  const read = (player: Player, keys: Record<Action, string[]>, pad: Gamepad | null, touchZones: Set<TouchZone>): Input => {
+    const held = (action: Action) => keys[action].some(code => pressed.has(code));
+    if (ACTIONS.some(held)) touchScheme[player] = false;
+    let steer = (held('right') ? 1 : 0) - (held('left') ? 1 : 0);
+    steer += (touchZones.has('right') ? 1 : 0) - (touchZones.has('left') ? 1 : 0);
+    let throttle = held('throttle') ? 1 : 0;
+    let brake = held('brake') || touchZones.has('brake') ? 1 : 0;
+    let drift = held('drift') || touchZones.has('drift') ? 1 : 0;
+
+    if (pad) {
+      const axis = pad.axes[bindings.gamepad.steerAxis] ?? 0;
+      if (Math.abs(axis) > STICK_DEADZONE) steer += axis;
+      if (pad.buttons[DPAD_LEFT]?.pressed) steer -= 1;
+      if (pad.buttons[DPAD_RIGHT]?.pressed) steer += 1;
+      const trigger = (index: number) => {
+        const value = pad.buttons[index]?.value ?? 0;
+        return value > TRIGGER_DEADZONE ? value : 0;
+      };
+      if (trigger(bindings.gamepad.throttle) || trigger(bindings.gamepad.brake)) touchScheme[player] = false;
+      throttle = Math.max(throttle, trigger(bindings.gamepad.throttle));
+      brake = Math.max(brake, trigger(bindings.gamepad.brake));
+      if (pad.buttons[bindings.gamepad.drift]?.pressed) drift = 1;
+    }
+
+    if ((bindings.autoThrottle || touchScheme[player]) && brake === 0) throttle = 1;
+
+    return { steer: clamp(steer, -1, 1), throttle: clamp(throttle, 0, 1), brake: clamp(brake, 0, 1), drift };
+  };
+
+  const zonesOf = (player?: Player) =>
+    new Set([...touches.values()].filter(touch => player === undefined || touch.player === player).map(touch => touch.zone));
+
+  return {
+    poll: () => read(0, bindings.keys, getGamepad(), zonesOf()),
+    pollPlayers: () => {
+      const pads = getGamepads();
+      return [read(0, SPLIT_KEYS[0], pads[0] ?? null, zonesOf(0)), read(1, SPLIT_KEYS[1], pads[1] ?? null, zonesOf(1))];
+    },
+    setBindings: next => {
+      bindings = next;
+      pressed.clear();
+    },
+    pressTouch: (pointerId, zone, player = 0) => {
+      touches.set(pointerId, { zone, player });
+      touchScheme[player] = true;
+    },
+    reset: onBlur,
+    dispose: () => {
+      window.removeEventListener('keydown', onKeyDown);
+      window.removeEventListener('keyup', onKeyUp);
+      window.removeEventListener('pointerup', onPointerEnd);
+      window.removeEventListener('pointercancel', onPointerEnd);
+      window.removeEventListener('blur', onBlur);
+    },
+  };
+};
+
+// Human readable name for a KeyboardEvent.code
+export const keyLabel = (code: string) => {
+  if (code.startsWith('Key')) return code.slice(3);
+  if (code.startsWith('Digit')) return code.slice(5);
+  if (code.startsWith('Arrow')) return { ArrowLeft: '←', ArrowRight: '→', ArrowUp: '↑', ArrowDown: '↓' }[code] ?? code;
+  if (code === 'Space') return '空格';
+  if (code.startsWith('Shift')) return 'Shift';
+  return code;
+};
@@ -0,0 +1,272 @@
+import type { EngineState } from './game/engine';
+
+// --- Online Races ---
+// Shared by the browser client and the WebSocket race server in /server.
+// Players meet in a room identified by a short code. The host's seed and lap
+// count define the track, the server starts everyone's countdown at once and
+// relays each car's position to the others. Every client simulates only its
+// own car; remote cars are drawn a little in the past, interpolated between
+// the updates received, so they move smoothly at any update rate.
+
+export const ONLINE_PATH = '/ws';
+export const MAX_ROOM_PLAYERS = 4;
+export const ROOM_CODE_LENGTH = 4;
+export const ROOM_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ'; // no I or O, they read as digits
+
+export type RoomPlayer = {
+  id: number;
+  name: string;
+  slot: number; // 0 to MAX_ROOM_PLAYERS - 1, picks the car color and grid position
+  host: boolean;
+  finishTime: number | null; // last race
+  retired: boolean; // left the last race without finishing
+};
+
+export type Room = {
+  code: string;
+  seed: string;
+  laps: number;
+  phase: 'lobby' | 'racing';
+  players: RoomPlayer[];
+};
+
+// Where a car is on the track, as streamed by its driver
+export type CarUpdate = {
+  distance: number; // laps completed times the track length, plus the position in the lap
+  playerX: number;
+  speed: number;
+};
+
+export type ClientMessage =
+  | { type: 'create'; name: string; seed: string; laps: number }
+  | { type: 'join'; name: string; code: string }
+  | { type: 'leave' }
+  | { type: 'start' } // host only
+  | { type: 'update'; car: CarUpdate }
+  | { type: 'finish'; time: number }
+  | { type: 'retire' }
+  | { type: 'ping'; sentAt: number };
+
+export type OnlineError = 'not-found' | 'full' | 'in-progress' | 'not-host' | 'invalid';
+
+export type ServerMessage =
+  | { type: 'welcome'; id: number }
+  | { type: 'room'; room: Room | null } // null after leaving
+  | { type: 'start'; delay: number } // milliseconds until the green light
+  | { type: 'update'; id: number; car: CarUpdate }
+  | { type: 'error'; error: OnlineError }
+  | { type: 'pong'; sentAt: number };
+
+export const ONLINE_ERROR_LABELS: Record<OnlineError | 'disconnected', string> = {
+  'not-found': '房间不存在',
+  full: '房间已满',
+  'in-progress': '比赛正在进行',
+  'not-host': '只有房主可以开始比赛',
+  invalid: '无效的请求',
+  disconnected: '无法连接服务器',
+};
+
+// Everyone starts on the line, spread across the road by slot
+export const gridX = (slot: number) => (slot - (MAX_ROOM_PLAYERS - 1) / 2) * 0.4;
+
+export const normalizeRoomCode = (code: string) => code.trim().toUpperCase().slice(0, ROOM_CODE_LENGTH);
+
+// --- Client ---
+
+export type RemoteCar = {
+  id: number;
+  slot: number;
+  position: number; // in the current lap
+  playerX: number;
+  distance: number;
+};
+
+// 1-based place of `self`: finished cars by finishing time, then the rest by distance
+export const onlinePlace = (room: Room, self: RoomPlayer, distance: number, cars: RemoteCar[]) => {
+  if (self.finishTime !== null) {
+    return 1 + room.players.filter(player => player.finishTime !== null && player.finishTime < self.finishTime!).length;
+  }
+  const finished = room.players.filter(player => player.finishTime !== null).length;
+  return 1 + finished + cars.filter(car => car.distance > distance).length;
+};
+
+export type OnlineStatus = 'offline' | 'connecting' | 'online';
+
+export type OnlineHandlers = {
+  onStatus: (status: OnlineStatus) => void;
+  onRoom: (room: Room | null, self: RoomPlayer | null) => void;
+  onStart: () => void;
+  onError: (message: string) => void;
+};
+
+export type OnlineManager = {
+  create: (name: string, seed: string, laps: number) => void;
+  join: (name: string, code: string) => void;
+  leave: () => void;
+  start: () => void;
+  sendState: (state: EngineState) => void; // throttled, call every frame
+  finish: (time: number) => void;
+  retire: () => void;
+  startsIn: () => number | null; // seconds until the synchronized start, null outside a countdown
+  remoteCars: (trackLength: number) => RemoteCar[];
+  dispose: () => void;
+};
+
+type Sample = CarUpdate & { at: number }; // local receive time, ms
+
+const SEND_INTERVAL = 1000 / 15; // ms between car updates
+const PING_INTERVAL = 2000;
+const INTERPOLATION_DELAY = 120; // ms remote cars are drawn behind, a bit more than the update interval
+const MAX_EXTRAPOLATION = 250; // ms a car keeps moving on its last speed when updates stop
+const MAX_SAMPLES = 20;
+
+const socketUrl = () => `${window.location.protocol === 'https:' ? 'wss' : 'ws'}://${window.location.host}${ONLINE_PATH}`;
+
+const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
+
+// Where a car was `at`, from the samples received around then
+const interpolate = (samples: Sample[], at: number): CarUpdate => {
+  const next = samples.findIndex(sample => sample.at > at);
+  if (next === -1) {
+    const last = samples[samples.length - 1];
+    const ahead = Math.min(at - last.at, MAX_EXTRAPOLATION) / 1000;
+    return { ...last, distance: last.distance + last.speed * ahead };
+  }
+  if (next === 0) return samples[0];
+  const a = samples[next - 1];
+  const b = samples[next];
+  const t = (at - a.at) / (b.at - a.at);
+  return { distance: lerp(a.distance, b.distance, t), playerX: lerp(a.playerX, b.playerX, t), speed: lerp(a.speed, b.speed, t) };
+};
+
+export const createOnlineManager = (handlers: OnlineHandlers): OnlineManager => {
+  let socket: WebSocket | null = null;
+  let pending: ClientMessage[] = []; // sent once the socket opens
+  let selfId: number | null = null;
+  let room: Room | null = null;
+  let roundTrip = 0; // ms, latest measurement
+  let startAt: number | null = null; // performance.now() of the green light
+  let lastSent = -Infinity;
+  let pingTimer: number | undefined;
+  const samples = new Map<number, Sample[]>();
+
+  const send = (message: ClientMessage) => {
+    if (socket?.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+    else pending.push(message);
+  };
+
+  const receive = (message: ServerMessage) => {
+    switch (message.type) {
+      case 'welcome':
+        selfId = message.id;
+        break;
+      case 'room':
+        room = message.room;
+        if (!room || room.phase === 'lobby') startAt = null;
+        // Forget cars that left
+        for (const id of samples.keys()) {
+          if (!room?.players.some(player => player.id === id)) samples.delete(id);
+        }
+        handlers.onRoom(room, room?.players.find(player => player.id === selfId) ?? null);
+        break;
+      case 'start':
+        // The message took about half a round trip to arrive
+        startAt = performance.now() + message.delay - roundTrip / 2;
+        samples.clear();
+        handlers.onStart();
+        break;
+      case 'update': {
+        const list = samples.get(message.id) ?? [];
+        list.push({ ...message.car, at: performance.now() });
+        if (list.length > MAX_SAMPLES) list.shift();
+        samples.set(message.id, list);
+        break;
+      }
+      case 'error':
+        handlers.onError(ONLINE_ERROR_LABELS[message.error]);
+        break;
+      case 'pong':
+        roundTrip = performance.now() - message.sentAt;
+        break;
+    }
+  };
+
+  const close = () => {
+    window.clearInterval(pingTimer);
+    socket = null;
+    pending = [];
+    selfId = null;
+    room = null;
+    startAt = null;
+    samples.clear();
+  };
+
+  // Connects on first use; the server is only needed for online races
+  const connect = () => {
+    if (socket) return;
+    const ws = new WebSocket(socketUrl());
+    socket = ws;
+    handlers.onStatus('connecting');
+    ws.onopen = () => {
+      handlers.onStatus('online');
+      pending.forEach(message => ws.send(JSON.stringify(message)));
+      pending = [];
+      pingTimer = window.setInterval(() => send({ type: 'ping', sentAt: performance.now() }), PING_INTERVAL);
+      send({ type: 'ping', sentAt: performance.now() });
+    };
+    ws.onmessage = e => {
+      try {
+        receive(JSON.parse(e.data) as ServerMessage);
+      } catch (err) {
+        console.warn('Ignoring unreadable server message', err);
+      }
+    };
+    // Closing on purpose detaches the socket first, so this is always a lost connection
+    ws.onclose = () => {
+      if (socket !== ws) return;
+      close();
+      handlers.onStatus('offline');
+      handlers.onRoom(null, null);
+      handlers.onError(ONLINE_ERROR_LABELS.disconnected);
+    };
+  };
+
+  return {
+    create: (name, seed, laps) => {
+      connect();
+      send({ type: 'create', name, seed, laps });
+    },
+    join: (name, code) => {
+      connect();
+      send({ type: 'join', name, code: normalizeRoomCode(code) });
+    },
+    leave: () => {
+      if (socket) send({ type: 'leave' });
+    },
+    start: () => send({ type: 'start' }),
+    sendState: state => {
+      const now = performance.now();
+      if (!room || now - lastSent < SEND_INTERVAL) return;
+      lastSent = now;
+      send({ type: 'update', car: { distance: state.lap * state.trackLength + state.position, playerX: state.playerX, speed: state.speed } });
+    },
+    finish: time => send({ type: 'finish', time }),
+    retire: () => send({ type: 'retire' }),
+    startsIn: () => (startAt === null ? null : Math.max(0, (startAt - performance.now()) / 1000)),
+    remoteCars: trackLength => {
+      if (!room || !trackLength) return [];
+      const at = performance.now() - INTERPOLATION_DELAY;
+      return room.players.flatMap(player => {
+        const list = samples.get(player.id);
+        if (player.id === selfId || player.finishTime !== null || player.retired || !list?.length) return [];
+        const car = interpolate(list, at);
+        return [{ id: player.id, slot: player.slot, position: car.distance % trackLength, playerX: car.playerX, distance: car.distance }];
+      });
+    },
+    dispose: () => {
+      const ws = socket;
+      close();
+      ws?.close();
+    },
+  };
+};
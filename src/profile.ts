@@ -0,0 +1,165 @@
+import { ACHIEVEMENTS, type Achievement, type AchievementId } from './achievements';
+import { endlessDistance } from './game/endless';
+import type { EngineEvent, EngineState } from './game/engine';
+import { raceProgress } from './game/laps';
+import { parseReplay } from './game/replay';
+import type { RaceMode } from './game/types';
+import { loadJSON, saveJSON } from './storage';
+import { TRACKS } from './tracks';
+
+// --- Player Profile ---
+// Lifetime stats, best times and achievements, kept as one versioned record in
+// local storage. Records written by an older build are migrated forward when
+// loaded. Ghosts and best laps are still stored on their own, next to the
+// replays they come from; the profile only keeps the numbers.
+
+export const PROFILE_VERSION = 1;
+
+const PROFILE_KEY = 'profile';
+
+export type Profile = {
+  version: typeof PROFILE_VERSION;
+  bestTimes: Record<string, number>; // seconds, by the same record keys as the ghosts
+  distance: number; // world units driven, every mode but versus
+  obstaclesHit: number;
+  boostsCollected: number;
+  racesFinished: number;
+  achievements: Partial<Record<AchievementId, string>>; // ISO timestamp of the unlock
+};
+
+// MIGRATIONS[n] upgrades a version n + 1 record to version n + 2
+const MIGRATIONS: ((data: Record<string, unknown>) => Record<string, unknown>)[] = [];
+
+const parseCount = (data: unknown) => {
+  if (typeof data !== 'number' || !Number.isFinite(data) || data < 0) throw new Error('invalid profile count');
+  return data;
+};
+
+export const parseProfile = (data: unknown): Profile => {
+  let value = data as Record<string, unknown> | null;
+  if (!value || typeof value !== 'object' || !Number.isInteger(value.version)) throw new Error('invalid profile');
+  const version = value.version as number;
+  if (version < 1 || version > PROFILE_VERSION) throw new Error(`unsupported profile version ${version}`);
+  for (let from = version; from < PROFILE_VERSION; from++) value = { ...MIGRATIONS[from - 1](value), version: from + 1 };
+
+  const bestTimes: Record<string, number> = {};
+  for (const [key, time] of Object.entries((value.bestTimes ?? {}) as Record<string, unknown>)) {
+    if (parseCount(time) > 0) bestTimes[key] = time as number;
+  }
+  // Achievements this build doesn't know about are dropped
+  const unlocked = (value.achievements ?? {}) as Record<string, unknown>;
+  const achievements: Profile['achievements'] = {};
+  for (const { id } of ACHIEVEMENTS) {
+    if (typeof unlocked[id] === 'string') achievements[id] = unlocked[id];
+  }
+  return {
+    version: PROFILE_VERSION,
+    bestTimes,
+    distance: parseCount(value.distance),
+    obstaclesHit: parseCount(value.obstaclesHit),
+    boostsCollected: parseCount(value.boostsCollected),
+    racesFinished: parseCount(value.racesFinished),
+    achievements,
+  };
+};
+
+// A first profile starts from the single-lap bests of the built-in tracks,
+// which were stored with their ghosts before there were profiles
+const createProfile = (): Profile => {
+  const bestTimes: Record<string, number> = {};
+  for (const { id } of TRACKS) {
+    const ghost = loadJSON(`ghost:${id}`, parseReplay);
+    if (ghost) bestTimes[id] = ghost.time;
+  }
+  return { version: PROFILE_VERSION, bestTimes, distance: 0, obstaclesHit: 0, boostsCollected: 0, racesFinished: 0, achievements: {} };
+};
+
+// --- Runs ---
+
+// What happened in one race or endless run, from the green light until it ends
+export type Run = {
+  mode: RaceMode;
+  recordKey: string | null; // for the best time, null in modes without ghosts
+  distance: number; // world units
+  obstacles: number;
+  boosts: number;
+  miniboosts: number;
+  finished: boolean;
+  time: number; // seconds
+};
+
+export const createRun = (mode: RaceMode, recordKey: string | null): Run => ({
+  mode,
+  recordKey,
+  distance: 0,
+  obstacles: 0,
+  boosts: 0,
+  miniboosts: 0,
+  finished: false,
+  time: 0,
+});
+
+// Call after every engine step; the events only cover the most recent one
+export const tallyEvents = (run: Run, events: EngineEvent[]) => {
+  for (const event of events) {
+    if (event === 'obstacle') run.obstacles++;
+    else if (event === 'boost') run.boosts++;
+    else if (event === 'miniboost') run.miniboosts++;
+  }
+};
+
+export const updateRun = (run: Run, state: EngineState) => {
+  // A finished car is past the line, but the race ends on it
+  run.distance = state.endless
+    ? endlessDistance(state)
+    : Math.min(raceProgress(state.lap, state.position, state.trackLength), state.settings.laps * state.trackLength);
+  run.finished = state.finished;
+  run.time = state.time;
+};
+
+// --- Store ---
+
+export type ProfileStore = {
+  get: () => Profile;
+  check: (run: Run) => Achievement[]; // unlocks during a run, call every frame
+  record: (run: Run) => Achievement[]; // adds an ended run to the totals
+};
+
+export const createProfileStore = (): ProfileStore => {
+  let profile = loadJSON(PROFILE_KEY, parseProfile) ?? createProfile();
+
+  // Marks and returns the achievements `run` newly unlocks
+  const unlock = (run: Run) => {
+    const unlocked = ACHIEVEMENTS.filter(achievement => !profile.achievements[achievement.id] && achievement.check(run, profile));
+    if (unlocked.length) {
+      const at = new Date().toISOString();
+      profile = { ...profile, achievements: { ...profile.achievements, ...Object.fromEntries(unlocked.map(({ id }) => [id, at])) } };
+    }
+    return unlocked;
+  };
+
+  return {
+    get: () => profile,
+    check: run => {
+      const unlocked = unlock(run);
+      if (unlocked.length) saveJSON(PROFILE_KEY, profile);
+      return unlocked;
+    },
+    record: run => {
+      const best = run.recordKey ? profile.bestTimes[run.recordKey] : undefined;
+      profile = {
+        ...profile,
+        bestTimes: run.finished && run.recordKey && (best === undefined || run.time < best)
+          ? { ...profile.bestTimes, [run.recordKey]: run.time }
+          : profile.bestTimes,
+        distance: profile.distance + run.distance,
+        obstaclesHit: profile.obstaclesHit + run.obstacles,
+        boostsCollected: profile.boostsCollected + run.boosts,
+        racesFinished: profile.racesFinished + (run.finished ? 1 : 0),
+      };
+      const unlocked = unlock(run);
+      saveJSON(PROFILE_KEY, profile);
+      return unlocked;
+    },
+  };
+};
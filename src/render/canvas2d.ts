@@ -0,0 +1,134 @@
+import type { Renderer } from './renderer';
+
+// --- Canvas 2D Renderer ---
+// Consecutive shapes of the same color are collected into one path and filled
+// (or stroked) together, which is what keeps particles cheap.
+
+type Pending = { mode: 'fill' | 'stroke'; color: string; width: number } | null;
+
+export const createCanvasRenderer = (canvas: HTMLCanvasElement): Renderer => {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D is unavailable');
+  let pending: Pending = null;
+  let alpha = 1;
+  let clip: number | null = null;
+  let viewport: { x: number; y: number; width: number; height: number } | null = null; // null for the whole canvas
+
+  const flush = () => {
+    if (!pending) return;
+    if (pending.mode === 'fill') {
+      ctx.fillStyle = pending.color;
+      ctx.fill();
+    } else {
+      ctx.strokeStyle = pending.color;
+      ctx.lineWidth = pending.width;
+      ctx.stroke();
+    }
+    pending = null;
+  };
+
+  // Starts a new path unless the previous shape can share it
+  const path = (mode: 'fill' | 'stroke', color: string, width = 0) => {
+    if (pending && pending.mode === mode && pending.color === color && pending.width === width) return;
+    flush();
+    pending = { mode, color, width };
+    ctx.beginPath();
+  };
+
+  // The viewport's translation and clip are saved first, the crest clip inside it
+  const setClip = (maxY: number | null) => {
+    if (maxY === clip) return;
+    flush();
+    if (clip !== null) ctx.restore();
+    clip = maxY;
+    if (maxY !== null) {
+      ctx.save();
+      ctx.beginPath();
+      ctx.rect(0, 0, viewport?.width ?? canvas.width, maxY);
+      ctx.clip();
+    }
+    ctx.globalAlpha = alpha;
+  };
+
+  const setViewport = (next: typeof viewport) => {
+    setClip(null);
+    if (viewport) ctx.restore();
+    viewport = next;
+    if (next) {
+      ctx.save();
+      ctx.translate(next.x, next.y);
+      ctx.beginPath();
+      ctx.rect(0, 0, next.width, next.height);
+      ctx.clip();
+    }
+    ctx.globalAlpha = alpha;
+  };
+
+  return {
+    kind: 'canvas2d',
+    begin: () => {
+      setViewport(null);
+      alpha = 1;
+      ctx.globalAlpha = 1;
+      ctx.clearRect(0, 0, canvas.width, canvas.height);
+    },
+    end: () => {
+      setViewport(null);
+    },
+    setAlpha: value => {
+      if (value === alpha) return;
+      flush();
+      alpha = value;
+      ctx.globalAlpha = value;
+    },
+    setClip,
+    setViewport: (x, y, width, height) => setViewport({ x, y, width, height }),
+    fillRect: (x, y, w, h, color) => {
+      flush();
+      ctx.fillStyle = color;
+      ctx.fillRect(x, y, w, h);
+    },
+    fillGradient: (x, y, w, h, top, bottom) => {
+      flush();
+      const gradient = ctx.createLinearGradient(0, y, 0, y + h);
+      gradient.addColorStop(0, top);
+      gradient.addColorStop(1, bottom);
+      ctx.fillStyle = gradient;
+      ctx.fillRect(x, y, w, h);
+    },
+    fillTrapezoid: (x1, y1, w1, x2, y2, w2, color) => {
+      path('fill', color);
+      ctx.moveTo(x1 - w1, y1);
+      ctx.lineTo(x2 - w2, y2);
+      ctx.lineTo(x2 + w2, y2);
+      ctx.lineTo(x1 + w1, y1);
+      ctx.closePath();
+    },
+    fillCircle: (x, y, r, color) => {
+      path('fill', color);
+      ctx.moveTo(x + r, y);
+      ctx.arc(x, y, r, 0, Math.PI * 2);
+    },
+    drawLine: (x1, y1, x2, y2, width, color) => {
+      path('stroke', color, width);
+      ctx.moveTo(x1, y1);
+      ctx.lineTo(x2, y2);
+    },
+    drawImage: (image, sx, sy, sw, sh, dx, dy, dw, dh, rotation = 0) => {
+      flush();
+      if (!rotation) {
+        ctx.drawImage(image, sx, sy, sw, sh, dx, dy, dw, dh);
+        return;
+      }
+      ctx.save();
+      ctx.translate(dx + dw / 2, dy + dh / 2);
+      ctx.rotate(rotation);
+      ctx.drawImage(image, sx, sy, sw, sh, -dw / 2, -dh / 2, dw, dh);
+      ctx.restore();
+    },
+    release: () => {},
+    dispose: () => {
+      pending = null;
+    },
+  };
+};
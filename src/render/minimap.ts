@@ -0,0 +1,44 @@
+import { SEGMENT_LENGTH } from '../game/constants';
+import type { Segment } from '../game/types';
+
+// --- Minimap ---
+// The track seen from above. Segments only store how sharply the road bends,
+// so the shape comes from walking the track and turning the heading by each
+// segment's curve. Tracks aren't built to close into loops: the finish line
+// ends up wherever the corners lead, not back on the start.
+
+const TURN_PER_CURVE = Math.PI / 400; // radians per segment per unit of curve; a 100 segment curve of 2 turns 90°
+
+export type TrackOutline = {
+  points: { x: number; y: number }[]; // the start of every segment, then the end of the last, in segment lengths
+  bounds: { minX: number; minY: number; maxX: number; maxY: number };
+  checkpoints: number[]; // segment indices
+};
+
+export const trackOutline = (segments: Segment[]): TrackOutline => {
+  const points = [{ x: 0, y: 0 }];
+  let heading = 0; // 0 is up the map, positive to the right
+  segments.forEach(segment => {
+    heading += segment.curve * TURN_PER_CURVE;
+    const last = points[points.length - 1];
+    points.push({ x: last.x + Math.sin(heading), y: last.y - Math.cos(heading) });
+  });
+  const xs = points.map(point => point.x);
+  const ys = points.map(point => point.y);
+  return {
+    points,
+    bounds: { minX: Math.min(...xs), minY: Math.min(...ys), maxX: Math.max(...xs), maxY: Math.max(...ys) },
+    checkpoints: segments.filter(segment => segment.checkpoint).map(segment => segment.index),
+  };
+};
+
+// Where track position `z` lies on the outline, wrapping into the current lap
+export const outlinePoint = ({ points }: TrackOutline, z: number) => {
+  const segments = points.length - 1;
+  const at = (((z / SEGMENT_LENGTH) % segments) + segments) % segments;
+  const index = Math.floor(at);
+  const percent = at - index;
+  const from = points[index];
+  const to = points[index + 1];
+  return { x: from.x + (to.x - from.x) * percent, y: from.y + (to.y - from.y) * percent };
+};
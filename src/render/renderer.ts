@@ -0,0 +1,58 @@
+import { createCanvasRenderer } from './canvas2d';
+import { createWebGLRenderer, probeWebGL } from './webgl';
+
+// --- Renderer ---
+// Everything on the game canvas is drawn through this interface, in screen
+// pixels with the origin at the top left. Backends may batch draw calls, so
+// nothing is guaranteed to be on screen before `end()`.
+
+export type RendererKind = 'canvas2d' | 'webgl';
+
+export type RendererChoice = RendererKind | 'auto';
+
+export const RENDERER_LABELS: Record<RendererChoice, string> = {
+  auto: '自动',
+  webgl: 'WebGL',
+  canvas2d: 'Canvas 2D',
+};
+
+export const parseRendererChoice = (data: unknown): RendererChoice => {
+  if (typeof data !== 'string' || !(data in RENDERER_LABELS)) throw new Error('invalid renderer choice');
+  return data as RendererChoice;
+};
+
+// Images must not change after they are first drawn: WebGL uploads each one
+// to a texture once, and keeps it until the image is released.
+export type RenderImage = HTMLImageElement | HTMLCanvasElement;
+
+export type Renderer = {
+  kind: RendererKind;
+  begin: () => void; // starts a frame at the canvas' current size, cleared
+  end: () => void; // flushes anything still batched
+  setAlpha: (alpha: number) => void; // applies to everything drawn after it
+  setClip: (maxY: number | null) => void; // only draw above screen y `maxY`
+  // Moves the origin to (x, y) and only draws inside the `width` x `height` rectangle
+  // from there, until the next call or `begin()`; clip positions are relative to it
+  setViewport: (x: number, y: number, width: number, height: number) => void;
+  fillRect: (x: number, y: number, w: number, h: number, color: string) => void;
+  fillGradient: (x: number, y: number, w: number, h: number, top: string, bottom: string) => void; // vertical
+  // Trapezoid between two horizontal edges given by their center and half width, as road pieces are
+  fillTrapezoid: (x1: number, y1: number, w1: number, x2: number, y2: number, w2: number, color: string) => void;
+  fillCircle: (x: number, y: number, r: number, color: string) => void;
+  drawLine: (x1: number, y1: number, x2: number, y2: number, width: number, color: string) => void;
+  // Source rectangle of `image` into a destination rectangle, rotated by `rotation` radians about its center
+  drawImage: (image: RenderImage, sx: number, sy: number, sw: number, sh: number, dx: number, dy: number, dw: number, dh: number, rotation?: number) => void;
+  release: (image: RenderImage) => void; // frees what the backend keeps for an image that won't be drawn again
+  dispose: () => void;
+};
+
+// 'auto' picks WebGL when there is a hardware accelerated context to be had.
+// A canvas can only ever hold one kind of context, so switching backends needs
+// a fresh canvas element.
+export const createRenderer = (canvas: HTMLCanvasElement, choice: RendererChoice): Renderer => {
+  const support = choice === 'canvas2d' ? 'none' : probeWebGL();
+  const webgl = support === 'hardware' || (choice === 'webgl' && support === 'software')
+    ? createWebGLRenderer(canvas)
+    : null;
+  return webgl ?? createCanvasRenderer(canvas);
+};
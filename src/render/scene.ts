@@ -0,0 +1,546 @@
+import type { AssetFrame, AssetManager } from '../assets';
+import { ATMOSPHERES, createPalette, createParticles, fogAmount, type Atmosphere, type AtmosphereId, type Palette, type Particle } from '../game/atmosphere';
+import { isSpinning } from '../game/collision';
+import { CAMERA_HEIGHT, CAR_WIDTH, DRAW_DISTANCE, PLAYER_Z, ROAD_WIDTH, SEGMENT_LENGTH } from '../game/constants';
+import { findSegment, type EngineState } from '../game/engine';
+import type { CarColors, Point, Segment, Sprite, SpriteType } from '../game/types';
+import type { Renderer } from './renderer';
+import type { Viewport } from './viewport';
+
+// --- Scene ---
+// Projects the road around the camera and draws one frame of it: sky, road,
+// sprites and cars back to front, then the player car and weather on top.
+
+export type AtmosphereView = { id: AtmosphereId; atmosphere: Atmosphere; palette: Palette; particles: Particle[] };
+
+export const createAtmosphereView = (id: AtmosphereId): AtmosphereView => {
+  const atmosphere = ATMOSPHERES[id];
+  return {
+    id,
+    atmosphere,
+    palette: createPalette(atmosphere),
+    particles: atmosphere.particles ? createParticles(atmosphere.particles) : [],
+  };
+};
+
+// Another car driven by a player rather than the AI: a ghost, the other player
+// in split screen or a remote player in an online race
+export type Rival = {
+  state: Pick<EngineState, 'position' | 'playerX' | 'finished' | 'failure'>;
+  colors: CarColors;
+  alpha: number;
+};
+
+// How the player's own car looks; a Vehicle is one
+export type PlayerCar = { colors: CarColors; sprite: string | null };
+
+export type Scene = {
+  game: EngineState;
+  rivals: Rival[];
+  car: PlayerCar;
+  view: AtmosphereView;
+  assets: AssetManager | null;
+  drawDistance?: number; // segments, DRAW_DISTANCE unless tuned
+};
+
+// What a frame drew, for the debug overlay
+export type SceneStats = {
+  segments: number;
+  sprites: number; // including other cars
+};
+
+// `facing` is 1 looking down the track and -1 looking back along it
+const project = (p: Point, cameraX: number, cameraY: number, cameraZ: number, viewport: Viewport, roadWidth: number, facing = 1) => {
+  const worldX = p.x - cameraX;
+  const worldY = p.y - cameraY;
+  const worldZ = (p.z - cameraZ) * facing;
+
+  p.screenX = Math.round((viewport.width / 2) + (viewport.focal * worldX / worldZ));
+  p.screenY = Math.round((viewport.height / 2) - (viewport.focalY * worldY / worldZ));
+  p.screenW = Math.round(viewport.focal * roadWidth / worldZ);
+};
+
+// --- Baked Shapes ---
+// Vector fallbacks are drawn once into offscreen canvases and then drawn like
+// any other image, so every backend only has to know about images.
+
+const BAKE_SCALE = 2; // baked pixels per screen pixel at the reference size
+
+const bake = (width: number, height: number, draw: (ctx: CanvasRenderingContext2D) => void) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.ceil(width * BAKE_SCALE);
+  canvas.height = Math.ceil(height * BAKE_SCALE);
+  const ctx = canvas.getContext('2d');
+  if (ctx) {
+    ctx.scale(BAKE_SCALE, BAKE_SCALE);
+    draw(ctx);
+  }
+  return canvas;
+};
+
+const SHAPE_SIZE = 64;
+
+// Simple shapes instead of images for "Cartoon 3D" look, stretched to the sprite's size
+const SHAPES: Record<SpriteType, (ctx: CanvasRenderingContext2D) => void> = {
+  obstacle: ctx => {
+    ctx.fillStyle = '#4B5563'; // Stone color
+    ctx.beginPath();
+    ctx.ellipse(SHAPE_SIZE / 2, SHAPE_SIZE / 2, SHAPE_SIZE / 2 - 1, SHAPE_SIZE / 2 - 1, 0, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.strokeStyle = '#1F2937';
+    ctx.lineWidth = 2;
+    ctx.stroke();
+  },
+  boost: ctx => {
+    ctx.fillStyle = '#FBBF24'; // Gold/Yellow
+    ctx.beginPath();
+    ctx.arc(SHAPE_SIZE / 2, SHAPE_SIZE / 2, SHAPE_SIZE / 2 - 1, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.strokeStyle = '#D97706';
+    ctx.lineWidth = 2;
+    ctx.stroke();
+  },
+  prop: ctx => {
+    ctx.fillStyle = '#065F46'; // Tree
+    ctx.beginPath();
+    ctx.moveTo(SHAPE_SIZE / 2, 0);
+    ctx.lineTo(0, SHAPE_SIZE);
+    ctx.lineTo(SHAPE_SIZE, SHAPE_SIZE);
+    ctx.closePath();
+    ctx.fill();
+  },
+};
+
+const shapes = new Map<SpriteType, HTMLCanvasElement>();
+
+const shapeImage = (type: SpriteType) => {
+  let image = shapes.get(type);
+  if (!image) shapes.set(type, image = bake(SHAPE_SIZE, SHAPE_SIZE, SHAPES[type]));
+  return image;
+};
+
+// Simple Cartoon Car at the 120px player size, centered on its body in a
+// canvas with room for the roof, wheels and outline
+const CAR_BAKE_W = 134;
+const CAR_BAKE_H = 108;
+
+const cars = new Map<string, HTMLCanvasElement>();
+
+const carImage = (colors: CarColors) => {
+  const key = `${colors.body}/${colors.outline}/${colors.roof}`;
+  let image = cars.get(key);
+  if (image) return image;
+  image = bake(CAR_BAKE_W, CAR_BAKE_H, ctx => {
+    const carX = (CAR_BAKE_W - 120) / 2;
+    const carY = (CAR_BAKE_H - 60) / 2;
+
+    // Body
+    ctx.fillStyle = colors.body;
+    ctx.beginPath();
+    ctx.roundRect(carX, carY, 120, 60, 10);
+    ctx.fill();
+    ctx.strokeStyle = colors.outline;
+    ctx.lineWidth = 3;
+    ctx.stroke();
+
+    // Roof
+    ctx.fillStyle = colors.roof;
+    ctx.beginPath();
+    ctx.roundRect(carX + 20, carY - 20, 80, 30, 5);
+    ctx.fill();
+    ctx.stroke();
+
+    // Wheels
+    ctx.fillStyle = '#1F2937';
+    ctx.fillRect(carX - 5, carY + 10, 10, 20);
+    ctx.fillRect(carX + 115, carY + 10, 10, 20);
+    ctx.fillRect(carX - 5, carY + 30, 10, 20);
+    ctx.fillRect(carX + 115, carY + 30, 10, 20);
+  });
+  cars.set(key, image);
+  return image;
+};
+
+const GLOW = 30; // blur radius of the boost glow, in screen pixels at the reference size
+
+const glows = new WeakMap<AssetFrame, HTMLCanvasElement>();
+
+// An atlas frame with the boost glow around it, padded by GLOW on every side
+const glowImage = (frame: AssetFrame, color: string) => {
+  let image = glows.get(frame);
+  if (!image) {
+    image = bake(frame.w + GLOW * 2, frame.h + GLOW * 2, ctx => {
+      ctx.shadowColor = color;
+      ctx.shadowBlur = GLOW * BAKE_SCALE; // shadows ignore the canvas transform
+      ctx.drawImage(frame.image, frame.x, frame.y, frame.w, frame.h, GLOW, GLOW, frame.w, frame.h);
+    });
+    glows.set(frame, image);
+  }
+  return image;
+};
+
+let headlights: { key: string; image: HTMLCanvasElement } | null = null;
+
+// Darkness everywhere but a cone of light ahead of the player car, baked for
+// the current screen size and rebuilt when it changes
+const headlightImage = (renderer: Renderer, { width, height, unit }: Viewport, darkness: number) => {
+  const key = `${width}x${height}:${darkness}`;
+  if (headlights?.key === key) return headlights.image;
+  if (headlights) renderer.release(headlights.image);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (ctx) {
+    const cone = new Path2D();
+    cone.moveTo(width / 2 - 45 * unit, height - 100 * unit);
+    cone.lineTo(width * 0.15, height / 2);
+    cone.lineTo(width * 0.85, height / 2);
+    cone.lineTo(width / 2 + 45 * unit, height - 100 * unit);
+    cone.closePath();
+
+    const shade = new Path2D();
+    shade.rect(0, 0, width, height);
+    shade.addPath(cone);
+
+    ctx.fillStyle = `rgba(2, 6, 23, ${darkness})`;
+    ctx.fill(shade, 'evenodd');
+    const glow = ctx.createRadialGradient(width / 2, height - 100 * unit, 10 * unit, width / 2, height - 100 * unit, height / 2);
+    glow.addColorStop(0, 'rgba(254, 243, 199, 0.3)');
+    glow.addColorStop(1, 'rgba(254, 243, 199, 0)');
+    ctx.fillStyle = glow;
+    ctx.fill(cone);
+  }
+  headlights = { key, image: canvas };
+  return canvas;
+};
+
+// --- Drawing ---
+
+// Draws `frame` if the sprite's asset is loaded, otherwise a simple shape for
+// its type; false when it's hidden
+const drawSprite = (renderer: Renderer, viewport: Viewport, segment: Segment, sprite: Sprite, frame: AssetFrame | null) => {
+  const scale = (segment.p1.screenW / ROAD_WIDTH) * (viewport.focal / viewport.depth);
+  const destW = sprite.w * scale;
+  const destH = sprite.h * scale;
+
+  // Centered on the sprite's x, in road half-widths like the player's hitbox
+  const x = segment.p1.screenX + sprite.x * segment.p1.screenW - destW / 2;
+  const y = segment.p1.screenY - destH;
+
+  // Fully hidden behind a crest
+  if (segment.clip && y >= segment.clip) return false;
+
+  renderer.setClip(segment.clip || null);
+  if (frame) {
+    renderer.drawImage(frame.image, frame.x, frame.y, frame.w, frame.h, x, y, destW, destH);
+  } else {
+    const image = shapeImage(sprite.type);
+    renderer.drawImage(image, 0, 0, image.width, image.height, x, y, destW, destH);
+  }
+  return true;
+};
+
+// Draws a vector car from its bottom center, scaled from the 120px player car
+// to `carW` and rotated by `tilt` about the middle of its body
+const drawCar = (renderer: Renderer, centerX: number, bottomY: number, carW: number, colors: CarColors, tilt = 0) => {
+  const s = carW / 120;
+  const image = carImage(colors);
+  const destW = CAR_BAKE_W * s;
+  const destH = CAR_BAKE_H * s;
+  renderer.drawImage(image, 0, 0, image.width, image.height, centerX - destW / 2, bottomY - 30 * s - destH / 2, destW, destH, tilt);
+};
+
+type WorldCar = { z: number; x: number; colors: CarColors; alpha: number };
+
+// Other cars, bucketed by the segment they stand on so they sort with the sprites
+const bucketCars = (game: EngineState, rivals: Rival[], inView: (z: number) => boolean) => {
+  const carsBySegment = new Map<Segment, WorldCar[]>();
+  const addCar = (position: number, x: number, colors: CarColors, alpha = 1) => {
+    const z = position + PLAYER_Z;
+    if (!inView(z)) return;
+    const segment = findSegment(game.segments, z);
+    carsBySegment.set(segment, [...(carsBySegment.get(segment) ?? []), { z, x, colors, alpha }]);
+  };
+  game.cars.forEach(car => {
+    if (car.finishTime === null) addCar(car.z, car.x, car.colors);
+  });
+  rivals.forEach(({ state, colors, alpha }) => {
+    if (!state.finished && !state.failure) addCar(state.position, state.playerX, colors, alpha);
+  });
+  return carsBySegment;
+};
+
+// Player one drives the atlas car these colors stand in for
+export const PLAYER_COLORS: [CarColors, CarColors] = [
+  { body: '#EF4444', outline: '#991B1B', roof: '#FEE2E2' },
+  { body: '#3B82F6', outline: '#1E3A8A', roof: '#DBEAFE' },
+];
+// Online players by room slot; the first two match split screen
+export const ONLINE_COLORS: CarColors[] = [
+  ...PLAYER_COLORS,
+  { body: '#22C55E', outline: '#14532D', roof: '#DCFCE7' },
+  { body: '#A855F7', outline: '#581C87', roof: '#F3E8FF' },
+];
+export const GHOST_COLORS: CarColors = { body: '#A5B4FC', outline: '#4338CA', roof: '#EEF2FF' };
+const BOOST_BODY = '#F59E0B';
+
+const STEER_FRAME_THRESHOLD = 0.3;
+const DRIFT_TILT = 0.25; // radians
+
+// The player car from its sprite atlas, picking the frame from the steering
+// input; falls back to the vector car in the car's colors when it has no atlas
+// or the atlas is missing. `tilt` rotates the car about its center (a full turn
+// while spinning out).
+const drawPlayerCar = (renderer: Renderer, { width, height, unit }: Viewport, assets: AssetManager | null, car: PlayerCar, steer: number, boosting: boolean, tilt: number) => {
+  const direction = steer < -STEER_FRAME_THRESHOLD ? 'left' : (steer > STEER_FRAME_THRESHOLD ? 'right' : 'straight');
+  const frame = car.sprite ? assets?.get(`${car.sprite}-${direction}`) : null;
+  if (!frame) {
+    const body = car.colors;
+    drawCar(renderer, width / 2, height - 60 * unit, 120 * unit, boosting ? { ...body, body: BOOST_BODY } : body, tilt);
+    return;
+  }
+
+  // Frames are drawn at the size of the 120px vector car
+  const destW = frame.w * (120 / 140) * unit;
+  const destH = frame.h * (destW / frame.w);
+  const x = width / 2 - destW / 2;
+  const y = height - (60 - 8) * unit - destH;
+  if (boosting) {
+    const glow = glowImage(frame, BOOST_BODY);
+    const pad = GLOW * (destW / frame.w);
+    renderer.drawImage(glow, 0, 0, glow.width, glow.height, x - pad, y - pad, destW + pad * 2, destH + pad * 2, tilt);
+    return;
+  }
+  renderer.drawImage(frame.image, frame.x, frame.y, frame.w, frame.h, x, y, destW, destH, tilt);
+};
+
+// Draws another car (ghost, opponent) standing on an already projected segment; false when it's hidden
+const drawWorldCar = (renderer: Renderer, segment: Segment, z: number, x: number, colors: CarColors, alpha = 1) => {
+  const percent = (z % SEGMENT_LENGTH) / SEGMENT_LENGTH;
+  const { p1, p2 } = segment;
+  const screenY = p1.screenY + (p2.screenY - p1.screenY) * percent;
+  const screenW = p1.screenW + (p2.screenW - p1.screenW) * percent;
+  const screenX = p1.screenX + (p2.screenX - p1.screenX) * percent + x * screenW;
+  const carW = screenW * CAR_WIDTH / ROAD_WIDTH;
+  if (carW < 1 || (segment.clip && screenY - carW >= segment.clip)) return false;
+
+  renderer.setAlpha(alpha);
+  renderer.setClip(segment.clip || null);
+  drawCar(renderer, screenX, screenY, carW, colors);
+  return true;
+};
+
+const drawParticles = (renderer: Renderer, { width, height, unit }: Viewport, particles: Particle[], kind: 'rain' | 'snow') => {
+  if (kind === 'rain') {
+    for (const p of particles) {
+      renderer.drawLine(p.x * width, p.y * height, p.x * width - p.drift * height * 0.1, (p.y + p.size) * height, 1.5 * unit, 'rgba(191, 219, 254, 0.5)');
+    }
+  } else {
+    for (const p of particles) renderer.fillCircle(p.x * width, p.y * height, p.size * unit, 'rgba(255, 255, 255, 0.85)');
+  }
+};
+
+// Draws `scene` into `viewport`. The renderer must already be inside `begin()`.
+export const drawScene = (renderer: Renderer, viewport: Viewport, scene: Scene): SceneStats => {
+  const { width, height } = viewport;
+  const { game, rivals, assets } = scene;
+  const { atmosphere, palette, particles } = scene.view;
+  const stats = { segments: 0, sprites: 0 };
+  if (!game.segments.length) return stats;
+  // The endless road is only generated DRAW_DISTANCE ahead, and the projection
+  // below can only cross the lap seam once, so never look a whole lap ahead
+  const drawDistance = Math.min(scene.drawDistance ?? DRAW_DISTANCE, game.endless ? DRAW_DISTANCE : game.segments.length - 1);
+  renderer.setViewport(viewport.x, viewport.y, width, height);
+
+  // Draw Sky
+  renderer.fillGradient(0, 0, width, height / 2, atmosphere.sky[0], atmosphere.sky[1]);
+
+  // Draw Ground (beyond the draw distance everything has faded into the fog)
+  renderer.fillRect(0, height / 2, width, height / 2, atmosphere.fog);
+
+  const baseSegment = game.segments[Math.floor(game.position / SEGMENT_LENGTH) % game.segments.length];
+  const basePercent = (game.position % SEGMENT_LENGTH) / SEGMENT_LENGTH;
+
+  const playerY = baseSegment.p1.y + (baseSegment.p2.y - baseSegment.p1.y) * basePercent;
+  const cameraY = CAMERA_HEIGHT + playerY;
+  // Height change across the wrap from the last segment to the first (none on the endless ring)
+  const endY = game.segments[game.segments.length - 1].p2.y - game.segments[0].p1.y;
+
+  let x = 0;
+  let dx = -(baseSegment.curve * basePercent);
+  let maxY = height;
+
+  // Projection
+  for (let n = 0; n < drawDistance; n++) {
+    const segment = game.segments[(baseSegment.index + n) % game.segments.length];
+    const looped = segment.index < baseSegment.index;
+    // Segments past the finish line continue from where the track ends
+    const cameraZ = game.position - (looped ? game.trackLength : 0);
+    const segmentCameraY = cameraY - (looped ? endY : 0);
+
+    segment.clip = maxY;
+    project(segment.p1, game.playerX * ROAD_WIDTH - x, segmentCameraY, cameraZ, viewport, ROAD_WIDTH);
+    project(segment.p2, game.playerX * ROAD_WIDTH - x - dx, segmentCameraY, cameraZ, viewport, ROAD_WIDTH);
+
+    x += dx;
+    dx += segment.curve;
+
+    // Behind the camera, back-facing (downhill beyond a crest) or hidden behind nearer road
+    if (segment.p1.z <= cameraZ || segment.p2.screenY >= segment.p1.screenY || segment.p2.screenY >= maxY) continue;
+
+    stats.segments++;
+    const colors = palette(segment.color, fogAmount(n, drawDistance, atmosphere.fogDensity));
+    const { p1, p2 } = segment;
+
+    // Draw Grass
+    renderer.fillRect(0, p2.screenY, width, p1.screenY - p2.screenY, colors.grass);
+
+    // Draw Road
+    renderer.fillTrapezoid(p1.screenX, p1.screenY, p1.screenW, p2.screenX, p2.screenY, p2.screenW, colors.road);
+
+    // Draw Rumble
+    const rumbleW1 = p1.screenW * 0.1;
+    const rumbleW2 = p2.screenW * 0.1;
+    renderer.fillTrapezoid(p1.screenX - p1.screenW - rumbleW1, p1.screenY, rumbleW1, p2.screenX - p2.screenW - rumbleW2, p2.screenY, rumbleW2, colors.rumble);
+    renderer.fillTrapezoid(p1.screenX + p1.screenW + rumbleW1, p1.screenY, rumbleW1, p2.screenX + p2.screenW + rumbleW2, p2.screenY, rumbleW2, colors.rumble);
+
+    // Draw Lanes
+    if (colors.lane) {
+      renderer.fillTrapezoid(p1.screenX, p1.screenY, p1.screenW * 0.02, p2.screenX, p2.screenY, p2.screenW * 0.02, colors.lane);
+    }
+
+    maxY = p2.screenY;
+  }
+
+  const carsBySegment = bucketCars(game, rivals, z => {
+    const ahead = (z - game.position + game.trackLength) % game.trackLength;
+    return ahead > 0 && ahead < (drawDistance - 1) * SEGMENT_LENGTH;
+  });
+
+  // Draw Sprites (Back to Front), fading in out of the fog
+  for (let n = drawDistance - 1; n > 0; n--) {
+    const segment = game.segments[(baseSegment.index + n) % game.segments.length];
+    const visibility = 1 - fogAmount(n, drawDistance, atmosphere.fogDensity);
+    renderer.setAlpha(visibility);
+    segment.sprites.forEach(sprite => {
+      if (drawSprite(renderer, viewport, segment, sprite, assets?.get(sprite.source) ?? null)) stats.sprites++;
+    });
+    carsBySegment.get(segment)
+      ?.sort((a, b) => b.z - a.z)
+      .forEach(car => {
+        if (drawWorldCar(renderer, segment, car.z, car.x, car.colors, car.alpha * visibility)) stats.sprites++;
+      });
+  }
+  renderer.setAlpha(1);
+  renderer.setClip(null);
+
+  if (atmosphere.darkness) {
+    const image = headlightImage(renderer, viewport, atmosphere.darkness);
+    renderer.drawImage(image, 0, 0, width, height, 0, 0, width, height);
+  }
+
+  // Draw Player Car (Static in center, but with slight tilt based on steering,
+  // kicked out while drifting and spinning after a crash)
+  const spin = isSpinning(game) ? game.spinTimer * Math.PI * 4 : 0;
+  const tilt = (game.speed > 0 ? game.playerX * 0.1 : 0) + game.drift.direction * DRIFT_TILT + spin;
+  drawPlayerCar(renderer, viewport, assets, scene.car, game.steer, game.boostTimer > 0, tilt);
+
+  if (atmosphere.particles) drawParticles(renderer, viewport, particles, atmosphere.particles);
+  return stats;
+};
+
+// --- Rear-View Mirror ---
+
+const MIRROR_DISTANCE = 80; // segments
+const MIRROR_FRAME = '#0F172A';
+
+// The road behind the player car, projected like the road ahead but from the
+// car looking back. A mirror keeps the left side on the left, so unlike a
+// camera turned around nothing is flipped: the road behind bends the same way
+// on screen as the corner the car is in. The renderer must be inside `begin()`.
+export const drawRearView = (renderer: Renderer, viewport: Viewport, scene: Scene): SceneStats => {
+  const { width, height } = viewport;
+  const { game, rivals, assets } = scene;
+  const { atmosphere, palette } = scene.view;
+  const stats = { segments: 0, sprites: 0 };
+  if (!game.segments.length) return stats;
+
+  const frame = Math.max(2, Math.round(3 * viewport.unit));
+  renderer.setViewport(viewport.x - frame, viewport.y - frame, width + frame * 2, height + frame * 2);
+  renderer.fillRect(0, 0, width + frame * 2, height + frame * 2, MIRROR_FRAME);
+  renderer.setViewport(viewport.x, viewport.y, width, height);
+  renderer.fillGradient(0, 0, width, height / 2, atmosphere.sky[0], atmosphere.sky[1]);
+  renderer.fillRect(0, height / 2, width, height / 2, atmosphere.fog);
+
+  const { segments, trackLength } = game;
+  const carZ = (game.position + PLAYER_Z) % trackLength;
+  const carSegment = findSegment(segments, carZ);
+  const carPercent = (carZ % SEGMENT_LENGTH) / SEGMENT_LENGTH;
+  const cameraY = CAMERA_HEIGHT + carSegment.p1.y + (carSegment.p2.y - carSegment.p1.y) * carPercent;
+  const endY = segments[segments.length - 1].p2.y - segments[0].p1.y;
+
+  // Like the road ahead, never look back across the lap seam twice
+  const distance = Math.min(MIRROR_DISTANCE, segments.length - 1);
+  let x = 0;
+  let dx = 0;
+  let maxY = height;
+
+  // Nearest first; each segment's near edge is its end, p2
+  for (let n = 0; n < distance; n++) {
+    const segment = segments[(carSegment.index - n + segments.length) % segments.length];
+    const looped = segment.index > carSegment.index;
+    // Segments behind the start line are the end of the previous lap
+    const cameraZ = carZ + (looped ? trackLength : 0);
+    const segmentCameraY = cameraY + (looped ? endY : 0);
+
+    segment.clip = maxY;
+    project(segment.p2, game.playerX * ROAD_WIDTH - x, segmentCameraY, cameraZ, viewport, ROAD_WIDTH, -1);
+    project(segment.p1, game.playerX * ROAD_WIDTH - x - dx, segmentCameraY, cameraZ, viewport, ROAD_WIDTH, -1);
+
+    x += dx;
+    dx += segment.curve;
+
+    if (segment.p2.z >= cameraZ || segment.p1.screenY >= segment.p2.screenY || segment.p1.screenY >= maxY) continue;
+
+    stats.segments++;
+    const colors = palette(segment.color, fogAmount(n, DRAW_DISTANCE, atmosphere.fogDensity));
+    const { p1, p2 } = segment;
+    renderer.fillRect(0, p1.screenY, width, p2.screenY - p1.screenY, colors.grass);
+    renderer.fillTrapezoid(p2.screenX, p2.screenY, p2.screenW, p1.screenX, p1.screenY, p1.screenW, colors.road);
+    const rumbleW1 = p1.screenW * 0.1;
+    const rumbleW2 = p2.screenW * 0.1;
+    renderer.fillTrapezoid(p2.screenX - p2.screenW - rumbleW2, p2.screenY, rumbleW2, p1.screenX - p1.screenW - rumbleW1, p1.screenY, rumbleW1, colors.rumble);
+    renderer.fillTrapezoid(p2.screenX + p2.screenW + rumbleW2, p2.screenY, rumbleW2, p1.screenX + p1.screenW + rumbleW1, p1.screenY, rumbleW1, colors.rumble);
+    if (colors.lane) {
+      renderer.fillTrapezoid(p2.screenX, p2.screenY, p2.screenW * 0.02, p1.screenX, p1.screenY, p1.screenW * 0.02, colors.lane);
+    }
+
+    maxY = p1.screenY;
+  }
+
+  // Cars right under the camera would fill the whole mirror
+  const carsBySegment = bucketCars(game, rivals, z => {
+    const behind = (((carZ - z) % trackLength) + trackLength) % trackLength;
+    return behind > SEGMENT_LENGTH && behind < (distance - 1) * SEGMENT_LENGTH;
+  });
+
+  for (let n = distance - 1; n > 0; n--) {
+    const segment = segments[(carSegment.index - n + segments.length) % segments.length];
+    const visibility = 1 - fogAmount(n, DRAW_DISTANCE, atmosphere.fogDensity);
+    renderer.setAlpha(visibility);
+    segment.sprites.forEach(sprite => {
+      if (drawSprite(renderer, viewport, segment, sprite, assets?.get(sprite.source) ?? null)) stats.sprites++;
+    });
+    carsBySegment.get(segment)
+      ?.sort((a, b) => a.z - b.z)
+      .forEach(car => {
+        if (drawWorldCar(renderer, segment, car.z, car.x, car.colors, car.alpha * visibility)) stats.sprites++;
+      });
+  }
+  renderer.setAlpha(1);
+  renderer.setClip(null);
+
+  if (atmosphere.darkness) renderer.fillRect(0, 0, width, height, `rgba(2, 6, 23, ${atmosphere.darkness})`);
+  return stats;
+};
@@ -0,0 +1,95 @@
+import { CAMERA_DEPTH } from '../game/constants';
+
+// --- Viewport ---
+// The canvas' drawing buffer follows its displayed size and the device pixel
+// ratio, times a quality setting. The camera's field of view comes from
+// CAMERA_DEPTH and is kept across aspect ratios: it spans the width of a 4:3
+// screen, or the whole width of anything narrower, so portrait screens see
+// the same road with more sky and ground instead of a cropped strip.
+
+export const RENDER_SCALES = [0.5, 0.75, 1] as const;
+
+export type RenderScale = (typeof RENDER_SCALES)[number];
+
+export const DEFAULT_RENDER_SCALE: RenderScale = 1;
+
+export const parseRenderScale = (data: unknown): RenderScale => {
+  if (!RENDER_SCALES.includes(data as RenderScale)) throw new Error('invalid render scale');
+  return data as RenderScale;
+};
+
+const MAX_PIXEL_RATIO = 2; // sharper than this costs fill rate without looking any better
+const REFERENCE_WIDTH = 800; // size all screen-space drawing was designed for
+const REFERENCE_ASPECT = 4 / 3;
+const VERTICAL_SCALE = 0.75; // heights are drawn flattened, as they were on the 4:3 screen
+
+export type Viewport = {
+  x: number; // drawing buffer pixels, from the top left of the canvas
+  y: number;
+  width: number;
+  height: number;
+  focal: number; // pixels per world unit at one unit of depth, horizontally
+  focalY: number; // the same, vertically
+  unit: number; // pixels per pixel of the reference screen, for HUD-like sizes
+  depth: number; // the camera depth the focal lengths come from, CAMERA_DEPTH unless tuned
+};
+
+export const createViewport = (width: number, height: number, x = 0, y = 0, depth = CAMERA_DEPTH): Viewport => {
+  const halfWidth = Math.min(width, height * REFERENCE_ASPECT) / 2;
+  const focal = depth * halfWidth;
+  return { x, y, width, height, focal, focalY: focal * VERTICAL_SCALE, unit: halfWidth / (REFERENCE_WIDTH / 2), depth };
+};
+
+export type SplitLayout = 'columns' | 'rows';
+
+// Side by side on landscape screens, one above the other on portrait ones
+export const splitLayout = (width: number, height: number): SplitLayout => (width >= height ? 'columns' : 'rows');
+
+// Two viewports for split screen, player one's first (left or top)
+export const splitViewports = (width: number, height: number, depth = CAMERA_DEPTH): [Viewport, Viewport] => {
+  if (splitLayout(width, height) === 'columns') {
+    const half = Math.floor(width / 2);
+    return [createViewport(half, height, 0, 0, depth), createViewport(width - half, height, half, 0, depth)];
+  }
+  const half = Math.floor(height / 2);
+  return [createViewport(width, half, 0, 0, depth), createViewport(width, height - half, 0, half, depth)];
+};
+
+// Keeps `canvas`' drawing buffer matched to its layout size until the returned
+// function is called. Resizing clears the canvas: the game loop's next frame
+// redraws it, and a canvas drawn on demand redraws from `onResize`.
+export const fitCanvas = (canvas: HTMLCanvasElement, scale: number, onResize?: () => void) => {
+  const fit = () => {
+    const ratio = Math.min(window.devicePixelRatio || 1, MAX_PIXEL_RATIO) * scale;
+    const width = Math.max(1, Math.round(canvas.clientWidth * ratio));
+    const height = Math.max(1, Math.round(canvas.clientHeight * ratio));
+    if (canvas.width === width && canvas.height === height) return;
+    canvas.width = width;
+    canvas.height = height;
+    onResize?.();
+  };
+  fit();
+  const observer = new ResizeObserver(fit);
+  observer.observe(canvas);
+  // The pixel ratio changes with browser zoom and when moving between screens,
+  // neither of which necessarily resizes the element
+  window.addEventListener('resize', fit);
+  window.addEventListener('orientationchange', fit);
+  return () => {
+    observer.disconnect();
+    window.removeEventListener('resize', fit);
+    window.removeEventListener('orientationchange', fit);
+  };
+};
+
+// The rear-view mirror's inset, a wide strip centred along the top of `viewport`
+export const mirrorViewport = (viewport: Viewport): Viewport => {
+  const width = Math.round(viewport.width * (viewport.width >= viewport.height ? 0.3 : 0.5));
+  const height = Math.round(width / 3);
+  return createViewport(width, height, viewport.x + Math.round((viewport.width - width) / 2), viewport.y + Math.round(viewport.height * 0.03), viewport.depth);
+};
+
+export const parseRearView = (data: unknown): boolean => {
+  if (typeof data !== 'boolean') throw new Error('invalid rear view setting');
+  return data;
+};
@@ -0,0 +1,318 @@
+import type { RenderImage, Renderer } from './renderer';
+
+// --- WebGL Renderer ---
+// Every shape becomes textured triangles in one vertex buffer; solid shapes
+// use a 1x1 white texture. The buffer is only drawn when the texture or clip
+// changes or it fills up, so a whole road of segments goes out in a handful
+// of draw calls. Alpha is baked into the vertex colors.
+
+const FLOATS_PER_VERTEX = 8; // x, y, u, v, r, g, b, a
+const MAX_VERTICES = 6 * 4096;
+const CIRCLE_SEGMENTS = 12;
+
+const VERTEX_SHADER = `
+attribute vec2 a_position;
+attribute vec2 a_uv;
+attribute vec4 a_color;
+uniform vec2 u_size;
+varying vec2 v_uv;
+varying vec4 v_color;
+void main() {
+  vec2 clip = a_position / u_size * 2.0 - 1.0;
+  gl_Position = vec4(clip.x, -clip.y, 0.0, 1.0);
+  v_uv = a_uv;
+  v_color = a_color;
+}`;
+
+const FRAGMENT_SHADER = `
+precision mediump float;
+uniform sampler2D u_texture;
+varying vec2 v_uv;
+varying vec4 v_color;
+void main() {
+  gl_FragColor = texture2D(u_texture, v_uv) * v_color;
+}`;
+
+type Color = [r: number, g: number, b: number, a: number]; // 0 to 1
+
+const colors = new Map<string, Color>();
+
+// Parses #rgb, #rrggbb, rgb() and rgba(); anything else is drawn black
+const parseColor = (color: string): Color => {
+  let parsed = colors.get(color);
+  if (parsed) return parsed;
+  const hex = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i.exec(color);
+  const fn = /^rgba?\(([^)]+)\)$/i.exec(color);
+  if (hex) {
+    const digits = hex[1].length === 3 ? hex[1].replace(/./g, c => c + c) : hex[1];
+    const value = parseInt(digits, 16);
+    parsed = [((value >> 16) & 255) / 255, ((value >> 8) & 255) / 255, (value & 255) / 255, 1];
+  } else if (fn) {
+    const [r, g, b, a = 1] = fn[1].split(',').map(Number);
+    parsed = [r / 255, g / 255, b / 255, a];
+  } else {
+    parsed = [0, 0, 0, 1];
+  }
+  colors.set(color, parsed);
+  return parsed;
+};
+
+let probed: 'hardware' | 'software' | 'none' | null = null;
+
+// Whether WebGL is available, and whether it runs on the GPU (software
+// rasterizers are slower than Canvas 2D). Probed once on a throwaway canvas.
+export const probeWebGL = () => {
+  if (probed) return probed;
+  const gl = document.createElement('canvas').getContext('webgl');
+  if (!gl) return probed = 'none';
+  const info = gl.getExtension('WEBGL_debug_renderer_info');
+  const name = info ? String(gl.getParameter(info.UNMASKED_RENDERER_WEBGL)) : '';
+  gl.getExtension('WEBGL_lose_context')?.loseContext();
+  return probed = /swiftshader|llvmpipe|software|basic render/i.test(name) ? 'software' : 'hardware';
+};
+
+const compile = (gl: WebGLRenderingContext, type: number, source: string) => {
+  const shader = gl.createShader(type);
+  gl.shaderSource(shader, source);
+  gl.compileShader(shader);
+  if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) throw new Error(gl.getShaderInfoLog(shader) ?? 'shader compile failed');
+  return shader;
+};
+
+type Resources = {
+  program: WebGLProgram;
+  buffer: WebGLBuffer;
+  size: WebGLUniformLocation;
+  white: WebGLTexture;
+  textures: Map<RenderImage, WebGLTexture>;
+};
+
+const createResources = (gl: WebGLRenderingContext): Resources => {
+  const program = gl.createProgram();
+  gl.attachShader(program, compile(gl, gl.VERTEX_SHADER, VERTEX_SHADER));
+  gl.attachShader(program, compile(gl, gl.FRAGMENT_SHADER, FRAGMENT_SHADER));
+  gl.linkProgram(program);
+  if (!gl.getProgramParameter(program, gl.LINK_STATUS)) throw new Error(gl.getProgramInfoLog(program) ?? 'program link failed');
+  gl.useProgram(program);
+
+  const buffer = gl.createBuffer();
+  gl.bindBuffer(gl.ARRAY_BUFFER, buffer);
+  gl.bufferData(gl.ARRAY_BUFFER, MAX_VERTICES * FLOATS_PER_VERTEX * 4, gl.DYNAMIC_DRAW);
+  const stride = FLOATS_PER_VERTEX * 4;
+  for (const [name, size, offset] of [['a_position', 2, 0], ['a_uv', 2, 2], ['a_color', 4, 4]] as const) {
+    const location = gl.getAttribLocation(program, name);
+    gl.enableVertexAttribArray(location);
+    gl.vertexAttribPointer(location, size, gl.FLOAT, false, stride, offset * 4);
+  }
+
+  const white = gl.createTexture();
+  gl.bindTexture(gl.TEXTURE_2D, white);
+  gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, 1, 1, 0, gl.RGBA, gl.UNSIGNED_BYTE, new Uint8Array([255, 255, 255, 255]));
+
+  gl.enable(gl.BLEND);
+  gl.blendFuncSeparate(gl.SRC_ALPHA, gl.ONE_MINUS_SRC_ALPHA, gl.ONE, gl.ONE_MINUS_SRC_ALPHA);
+  gl.clearColor(0, 0, 0, 0);
+
+  return { program, buffer, size: gl.getUniformLocation(program, 'u_size'), white, textures: new Map() };
+};
+
+// Returns null when WebGL is unavailable
+export const createWebGLRenderer = (canvas: HTMLCanvasElement): Renderer | null => {
+  const gl = canvas.getContext('webgl', { premultipliedAlpha: false, antialias: true });
+  if (!gl) return null;
+  let resources: Resources;
+  try {
+    resources = createResources(gl);
+  } catch (err) {
+    console.warn('WebGL setup failed', err);
+    return null;
+  }
+
+  const vertices = new Float32Array(MAX_VERTICES * FLOATS_PER_VERTEX);
+  let count = 0;
+  let texture = resources.white;
+  let alpha = 1;
+  let clip: number | null = null;
+  let viewport = { x: 0, y: 0, width: 0, height: 0 };
+  let lost = false;
+
+  // The GPU can drop the context at any time (driver reset, too many tabs);
+  // drawing is skipped until it comes back and everything is uploaded again
+  const onLost = (e: Event) => {
+    e.preventDefault();
+    lost = true;
+  };
+  const onRestored = () => {
+    resources = createResources(gl);
+    texture = resources.white;
+    count = 0;
+    lost = false;
+  };
+  canvas.addEventListener('webglcontextlost', onLost);
+  canvas.addEventListener('webglcontextrestored', onRestored);
+
+  const flush = () => {
+    if (count && !lost) {
+      gl.bindTexture(gl.TEXTURE_2D, texture);
+      gl.bufferSubData(gl.ARRAY_BUFFER, 0, vertices.subarray(0, count * FLOATS_PER_VERTEX));
+      gl.drawArrays(gl.TRIANGLES, 0, count);
+    }
+    count = 0;
+  };
+
+  const useTexture = (next: WebGLTexture, vertexCount: number) => {
+    if (next !== texture || count + vertexCount > MAX_VERTICES) flush();
+    texture = next;
+  };
+
+  const vertex = (x: number, y: number, u: number, v: number, color: Color) => {
+    const i = count++ * FLOATS_PER_VERTEX;
+    vertices[i] = x + viewport.x;
+    vertices[i + 1] = y + viewport.y;
+    vertices[i + 2] = u;
+    vertices[i + 3] = v;
+    vertices[i + 4] = color[0];
+    vertices[i + 5] = color[1];
+    vertices[i + 6] = color[2];
+    vertices[i + 7] = color[3] * alpha;
+  };
+
+  // Solid quad from four corners in order around its edge
+  const quad = (x1: number, y1: number, x2: number, y2: number, x3: number, y3: number, x4: number, y4: number, top: Color, bottom = top) => {
+    useTexture(resources.white, 6);
+    vertex(x1, y1, 0, 0, top);
+    vertex(x2, y2, 0, 0, top);
+    vertex(x3, y3, 0, 0, bottom);
+    vertex(x1, y1, 0, 0, top);
+    vertex(x3, y3, 0, 0, bottom);
+    vertex(x4, y4, 0, 0, bottom);
+  };
+
+  const imageTexture = (image: RenderImage) => {
+    let cached = resources.textures.get(image);
+    if (!cached) {
+      cached = gl.createTexture();
+      gl.bindTexture(gl.TEXTURE_2D, cached);
+      gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, image);
+      // Images are rarely power-of-two sized, which WebGL 1 only allows without mipmaps or wrapping
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+      gl.bindTexture(gl.TEXTURE_2D, texture);
+      resources.textures.set(image, cached);
+    }
+    return cached;
+  };
+
+  const white: Color = [1, 1, 1, 1];
+
+  // Clips to the viewport, and above the crest clip within it. Scissor boxes
+  // count from the bottom of the canvas.
+  const scissor = () => {
+    if (lost) return;
+    const bottom = viewport.y + Math.min(viewport.height, clip ?? Infinity);
+    const top = Math.max(0, Math.min(canvas.height, Math.round(viewport.y)));
+    const height = Math.max(0, Math.min(canvas.height, Math.round(bottom)) - top);
+    gl.enable(gl.SCISSOR_TEST);
+    gl.scissor(Math.round(viewport.x), canvas.height - top - height, Math.round(viewport.width), height);
+  };
+
+  return {
+    kind: 'webgl',
+    begin: () => {
+      count = 0;
+      alpha = 1;
+      clip = null;
+      viewport = { x: 0, y: 0, width: canvas.width, height: canvas.height };
+      if (lost) return;
+      gl.viewport(0, 0, canvas.width, canvas.height);
+      gl.uniform2f(resources.size, canvas.width, canvas.height);
+      gl.disable(gl.SCISSOR_TEST);
+      gl.clear(gl.COLOR_BUFFER_BIT);
+    },
+    end: flush,
+    setAlpha: value => {
+      alpha = value;
+    },
+    setClip: maxY => {
+      if (maxY === clip) return;
+      flush();
+      clip = maxY;
+      scissor();
+    },
+    setViewport: (x, y, width, height) => {
+      flush();
+      viewport = { x, y, width, height };
+      clip = null;
+      scissor();
+    },
+    fillRect: (x, y, w, h, color) => {
+      quad(x, y, x + w, y, x + w, y + h, x, y + h, parseColor(color));
+    },
+    fillGradient: (x, y, w, h, top, bottom) => {
+      quad(x, y, x + w, y, x + w, y + h, x, y + h, parseColor(top), parseColor(bottom));
+    },
+    fillTrapezoid: (x1, y1, w1, x2, y2, w2, color) => {
+      quad(x1 - w1, y1, x2 - w2, y2, x2 + w2, y2, x1 + w1, y1, parseColor(color));
+    },
+    fillCircle: (x, y, r, color) => {
+      const fill = parseColor(color);
+      useTexture(resources.white, CIRCLE_SEGMENTS * 3);
+      for (let i = 0; i < CIRCLE_SEGMENTS; i++) {
+        const a1 = (i / CIRCLE_SEGMENTS) * Math.PI * 2;
+        const a2 = ((i + 1) / CIRCLE_SEGMENTS) * Math.PI * 2;
+        vertex(x, y, 0, 0, fill);
+        vertex(x + Math.cos(a1) * r, y + Math.sin(a1) * r, 0, 0, fill);
+        vertex(x + Math.cos(a2) * r, y + Math.sin(a2) * r, 0, 0, fill);
+      }
+    },
+    drawLine: (x1, y1, x2, y2, width, color) => {
+      const length = Math.hypot(x2 - x1, y2 - y1) || 1;
+      const nx = (-(y2 - y1) / length) * (width / 2);
+      const ny = ((x2 - x1) / length) * (width / 2);
+      quad(x1 + nx, y1 + ny, x2 + nx, y2 + ny, x2 - nx, y2 - ny, x1 - nx, y1 - ny, parseColor(color));
+    },
+    drawImage: (image, sx, sy, sw, sh, dx, dy, dw, dh, rotation = 0) => {
+      const iw = image instanceof HTMLImageElement ? image.naturalWidth : image.width;
+      const ih = image instanceof HTMLImageElement ? image.naturalHeight : image.height;
+      if (!iw || !ih) return;
+      useTexture(imageTexture(image), 6);
+      const [u1, v1, u2, v2] = [sx / iw, sy / ih, (sx + sw) / iw, (sy + sh) / ih];
+      const cx = dx + dw / 2;
+      const cy = dy + dh / 2;
+      const cos = Math.cos(rotation);
+      const sin = Math.sin(rotation);
+      const corner = (ox: number, oy: number, u: number, v: number) =>
+        vertex(cx + ox * cos - oy * sin, cy + ox * sin + oy * cos, u, v, white);
+      corner(-dw / 2, -dh / 2, u1, v1);
+      corner(dw / 2, -dh / 2, u2, v1);
+      corner(dw / 2, dh / 2, u2, v2);
+      corner(-dw / 2, -dh / 2, u1, v1);
+      corner(dw / 2, dh / 2, u2, v2);
+      corner(-dw / 2, dh / 2, u1, v2);
+    },
+    release: image => {
+      const cached = resources.textures.get(image);
+      if (!cached) return;
+      // Draw whatever is still batched with it first
+      if (cached === texture) {
+        flush();
+        texture = resources.white;
+      }
+      resources.textures.delete(image);
+      if (!lost) gl.deleteTexture(cached);
+    },
+    dispose: () => {
+      canvas.removeEventListener('webglcontextlost', onLost);
+      canvas.removeEventListener('webglcontextrestored', onRestored);
+      if (!lost) {
+        resources.textures.forEach(cached => gl.deleteTexture(cached));
+        gl.deleteTexture(resources.white);
+        gl.deleteBuffer(resources.buffer);
+        gl.deleteProgram(resources.program);
+      }
+      resources.textures.clear();
+      gl.getExtension('WEBGL_lose_context')?.loseContext();
+    },
+  };
+};
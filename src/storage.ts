@@ -0,0 +1,37 @@
+// --- Local Storage ---
+// Thin JSON wrapper around localStorage. Storage can be unavailable (private
+// mode, quota, disabled cookies), so failures are logged and never thrown.
+
+const PREFIX = 'minimal-racer:';
+
+export const loadJSON = <T>(key: string, parse: (data: unknown) => T): T | null => {
+  try {
+    const raw = window.localStorage.getItem(PREFIX + key);
+    return raw === null ? null : parse(JSON.parse(raw));
+  } catch (err) {
+    console.warn(`Ignoring unreadable stored value "${key}"`, err);
+    return null;
+  }
+};
+
+export const saveJSON = (key: string, value: unknown) => {
+  try {
+    window.localStorage.setItem(PREFIX + key, JSON.stringify(value));
+  } catch (err) {
+    console.warn(`Failed to store "${key}"`, err);
+  }
+};
+
+// --- Files ---
+
+export const downloadJSON = (filename: string, value: unknown) => {
+  const blob = new Blob([JSON.stringify(value)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+export const readJSONFile = async (file: File): Promise<unknown> => JSON.parse(await file.text());
@@ -0,0 +1,31 @@
+import { generateTrack, SEED_TRACK_PREFIX } from '../game/generator';
+import { loadTrack, type Track, type TrackDefinition } from '../game/track';
+import autumn from './autumn.json';
+import desert from './desert.json';
+import hills from './hills.json';
+import meadow from './meadow.json';
+
+export type TrackEntry = { id: string; track: Track | null; error: string | null };
+
+const BUNDLED_TRACKS: Record<string, unknown> = { meadow, hills, desert, autumn };
+
+// Each track is validated up front so a malformed file shows up as an error
+// entry on the START screen instead of breaking the render loop.
+export const TRACKS: TrackEntry[] = Object.entries(BUNDLED_TRACKS).map(([id, data]) => {
+  try {
+    return { id, track: loadTrack(data), error: null };
+  } catch (err) {
+    console.error(`Failed to load track "${id}"`, err);
+    return { id, track: null, error: err instanceof Error ? err.message : String(err) };
+  }
+});
+
+// Resolves a track id as stored in replays and records: either a bundled
+// track or a procedurally generated one ("seed:<seed>").
+export const findTrackDefinition = (id: string): TrackDefinition | null => {
+  if (id.startsWith(SEED_TRACK_PREFIX)) {
+    const seed = id.slice(SEED_TRACK_PREFIX.length);
+    return seed ? generateTrack(seed) : null;
+  }
+  return TRACKS.find(entry => entry.id === id)?.track?.definition ?? null;
+};
@@ -19,6 +19,11 @@ export default defineConfig(({mode}) => {
       // HMR is disabled in AI Studio via DISABLE_HMR env var.
       // Do not modifyâfile watching is disabled to prevent flickering during agent edits.
       hmr: process.env.DISABLE_HMR !== 'true',
+      // Leaderboard API and online races (npm run server)
+      proxy: {
+        '/api': `http://localhost:${env.PORT || 3001}`,
+        '/ws': { target: `ws://localhost:${env.PORT || 3001}`, ws: true },
+      },
     },
   };
 });